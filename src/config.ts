@@ -1,3 +1,4 @@
+import type { MapProviderType } from './map/types';
 import {
   MAP_DEFAULT_CENTER,
   MAP_DEFAULT_ZOOM,
@@ -5,9 +6,20 @@ import {
 } from './control';
 
 export const config = {
+  provider: (import.meta.env.VITE_MAP_PROVIDER || 'apple') as MapProviderType,
   mapkit: {
     token: import.meta.env.VITE_MAPKIT_TOKEN as string,
   },
+  google: {
+    apiKey: import.meta.env.VITE_GOOGLE_MAPS_API_KEY ?? '',
+    mapId: import.meta.env.VITE_GOOGLE_MAPS_MAP_ID ?? '', // Vector map ID - required for rotation, rules out POI filtering
+  },
+  tiles: {
+    url: import.meta.env.VITE_TILE_URL ?? '',              // XYZ template, e.g. http://localhost:8080/{z}/{x}/{y}.png
+    type: (import.meta.env.VITE_TILE_TYPE || 'raster') as 'raster' | 'vector',
+    styleUrl: import.meta.env.VITE_TILE_STYLE_URL ?? '',   // Full MapLibre style - overrides url/type when set
+    attribution: import.meta.env.VITE_TILE_ATTRIBUTION ?? '',
+  },
   defaults: {
     center: MAP_DEFAULT_CENTER,
     zoom: MAP_DEFAULT_ZOOM,
@@ -3,6 +3,9 @@
  *
  * This file contains all tunable parameters organized by functional area.
  * It has NO imports from other project files to avoid circular dependencies.
+ *
+ * The gesture and visualization values are only defaults: code reads them
+ * through the runtime settings store in settings.ts, which can override them.
  */
 
 // ============================================================================
@@ -10,19 +13,39 @@
 // ============================================================================
 
 export const DOUBLE_TAP_THRESHOLD_MS = 300;                  // Max interval between taps to count as double-tap
+export const TAP_MAX_DURATION_MS = 250;                      // Longest press that still counts as a tap
+export const TAP_SLOP_PX = 10;                               // Movement allowed before a press becomes a drag
+export const LONG_PRESS_DURATION_MS = 500;                   // Hold time to trigger a long press
+
+export const QUICK_ZOOM_TAP_DISTANCE_PX = 40;                // Max distance between the taps of a double-tap
+export const QUICK_ZOOM_DRAG_PX_PER_LEVEL = 100;             // Vertical drag per zoom level after a double-tap (down = in)
+export const QUICK_ZOOM_STEP = 1;                            // Zoom levels for double-tap (in) and two-finger tap (out)
+export const QUICK_ZOOM_ANIMATION_MS = 200;                  // Duration of the double-tap / two-finger tap zoom
 
 // ============================================================================
 // ROTATION - Gear/edge mode, rotation speed, thresholds
 // ============================================================================
 
-export type RotationMode = 'edge' | 'gear';
-export const ROTATION_MODE: RotationMode = 'gear';           // 'edge' = auto-rotation near edges, 'gear' = vertical drag rotation
-export const ROTATION_ENABLED = true;                        // false = disable all rotation (for testing)
+export type RotationMode = 'off' | 'edge' | 'gear';
+export const ROTATION_MODES: readonly RotationMode[] = ['off', 'edge', 'gear'];
+export const ROTATION_MODE: RotationMode = 'gear';           // 'edge' = auto-rotation near edges, 'gear' = vertical drag rotation, 'off' = no rotation at all
 
 export const ROTATION_EDGE_THRESHOLD_RATIO = 10.0;           // Gear appears within (rect.width / this) from edge
 export const ROTATION_SPEED_DEG_PER_SEC = 90;                // Rotation speed at full progress (edge mode)
 export const ROTATION_MAX_DT = 0.1;                          // Clamp dt to prevent huge jumps (in seconds)
 
+// Which edges the gear rolls along (handedness). Directions are for moving down
+// a side edge or right along the top/bottom edge
+export type GearEdgeMode = 'both' | 'left' | 'right' | 'top-bottom';
+export const GEAR_EDGE_MODES: readonly GearEdgeMode[] = ['both', 'left', 'right', 'top-bottom'];
+export type GearDirection = 'cw' | 'ccw';
+export const GEAR_DIRECTIONS: readonly GearDirection[] = ['cw', 'ccw'];
+export const GEAR_EDGE_MODE: GearEdgeMode = 'both';          // 'both' sides, 'left' or 'right' side only, or 'top-bottom' edges
+export const GEAR_DIRECTION_LEFT: GearDirection = 'cw';      // Left edge: down = CW
+export const GEAR_DIRECTION_RIGHT: GearDirection = 'ccw';    // Right edge: down = CCW
+export const GEAR_DIRECTION_TOP: GearDirection = 'ccw';      // Top edge: right = CCW
+export const GEAR_DIRECTION_BOTTOM: GearDirection = 'cw';    // Bottom edge: right = CW
+
 // ============================================================================
 // EDGE_INDICATOR - Edge bar appearance thresholds
 // ============================================================================
@@ -52,17 +75,28 @@ export const GEAR_COLOR_ROTATION = '#22c55e';              // Gear color when in
 export const GEAR_SYNC_WITH_MAP = true;                      // true = gear syncs with map position, false = gear follows finger (lower latency)
 
 // ============================================================================
-// INERTIA - Friction, velocity, sampling
+// INERTIA - Decay, velocity, sampling
 // ============================================================================
+// Inertia decays exponentially in real time, so a glide lasts just as long at
+// 60 Hz as at 120 Hz. After one time constant 37% of the release velocity is
+// left, and the glide covers velocity * time constant in total.
 
-export const INERTIA_MAX_VELOCITY_SAMPLES = 5;               // Number of velocity samples to average
-export const INERTIA_FRICTION = 0.95;                        // Deceleration factor per frame
-export const INERTIA_MIN_VELOCITY = 0.5;                     // Stop when velocity drops below this (pixels)
-export const INERTIA_SAMPLE_WINDOW_MS = 100;                 // Only use samples within this time window
+export const INERTIA_TIME_CONSTANT_MS = 325;                 // Pan inertia decay time constant
+export const INERTIA_MIN_VELOCITY = 0.03;                    // Stop when velocity drops below this (pixels per ms)
+export const INERTIA_SAMPLE_WINDOW_MS = 100;                 // Fit the release velocity to the samples within this time window
+export const INERTIA_RUBBER_BAND = true;                     // Ease a fling to a stop at the latitude limit instead of hitting it
+export const INERTIA_RUBBER_BAND_LATITUDE = 85;              // Latitude where the map providers clamp the center (±)
+
+export const ROTATION_INERTIA_TIME_CONSTANT_MS = 200;        // Rotation inertia decay time constant after a gear release
+export const ROTATION_INERTIA_MIN_VELOCITY = 0.003;          // Stop rotation inertia below this (degrees per ms)
+export const ZOOM_INERTIA_TIME_CONSTANT_MS = 160;            // Zoom inertia decay time constant after a whirl release
+export const ZOOM_INERTIA_MIN_VELOCITY = 0.00006;            // Stop zoom inertia below this (zoom levels per ms)
 
 // ============================================================================
 // ZOOM - Thresholds, blocking, clamping
 // ============================================================================
+// All zoom levels in this file are standard web-map tile zooms: the world is
+// 256 * 2^zoom pixels wide, on every map provider and at every latitude.
 
 export const ZOOM_MIN_LEVEL = 1;                             // Minimum zoom level
 export const ZOOM_MAX_LEVEL = 20;                            // Maximum zoom level
@@ -71,9 +105,47 @@ export const ZOOM_AREA_THRESHOLD = 1000;                     // Signed area thre
 export const ZOOM_ALT1_THRESHOLD = 500;                      // Threshold for Alt1 mode zoom activation
 export const ZOOM_RATE_COEFF = 20;                           // Coefficient for zoom rate calculation
 export const ZOOM_FULL_CIRCLES_MULT = 2.0;                   // Multiplier for fullCircles in compound value
-export const ZOOM_WHEEL_SENSITIVITY = 0.002;                 // Wheel delta multiplier for zoom
+export const ZOOM_WHEEL_SENSITIVITY = 0.002;                 // Mouse wheel delta (pixels) multiplier for zoom
+export const ZOOM_PINCH_WHEEL_SENSITIVITY = 0.01;            // Trackpad pinch (ctrl+wheel) delta multiplier for zoom
+export const WHEEL_LINE_HEIGHT_PX = 16;                      // Pixels per line for line-mode wheel deltas
+export const WHEEL_MOUSE_MIN_DELTA_PX = 50;                  // A burst starting with a vertical delta this big is a mouse wheel, smaller is a trackpad scroll
+export const WHEEL_GESTURE_GAP_MS = 200;                     // Wheel events closer than this belong to the same scroll burst
+
+// Two-finger pinch zoom and twist rotation
+export const PINCH_AXIS_LOCK = true;                         // true = a pinch either zooms or rotates, whichever passes its threshold first
+export const PINCH_ZOOM_THRESHOLD = 0.15;                    // Zoom levels of pinch before zoom engages (axis lock)
+export const PINCH_ROTATION_THRESHOLD_DEG = 12;              // Degrees of twist before rotation engages (axis lock)
+
+// Whirl-to-rotate (whirl mode 'rotate': circling with Alt held or after a long press)
+export const WHIRL_ROTATE_GAIN = 1;                          // Map degrees turned per degree circled
+export const WHIRL_ROTATE_MIN_RADIUS_PX = 15;                // Circling closer than this to the trail's center doesn't rotate (its angle is noise)
+
+// Whirl calibration (fits the whirl thresholds and zoom rate of the device used to the user)
+export const CALIBRATION_WHIRL_COUNT = 3;                    // Whirls to draw
+export const CALIBRATION_DRAG_COUNT = 3;                     // Straight drags to draw
+export const CALIBRATION_TARGET_ZOOM_RATE = 1.5;             // Zoom levels per second for the user's typical whirl
+export const CALIBRATION_MAX_RATE_FACTOR = 4;                // Fitted rate coefficient stays within this factor of its default
+
+// ============================================================================
+// MOUSE - Desktop pointer profile (chosen by PointerEvent.pointerType)
+// ============================================================================
+
+export const MOUSE_ZOOM_AREA_THRESHOLD = 2500;               // Signed area threshold for whirl zoom with a mouse (normal mode)
+export const MOUSE_ZOOM_ALT1_THRESHOLD = 1200;               // Alt1 threshold for whirl zoom with a mouse
+export const MOUSE_ZOOM_RATE_COEFF = 20;                     // ZOOM_RATE_COEFF for whirl zoom with a mouse
+export const MOUSE_ROTATION_DEG_PER_PX = 0.4;                // Rotation per pixel of horizontal shift-drag / right-drag
+
+// ============================================================================
+// KEYBOARD - Held-key pan, zoom and rotation rates
+// ============================================================================
 
-export const PAN_THRESHOLD = 0.1;                            // Minimum pan distance to trigger movement
+export const KEYBOARD_PAN_SPEED_PX_PER_SEC = 400;            // Arrow key pan speed when first pressed
+export const KEYBOARD_PAN_MAX_SPEED_MULT = 3;                // Pan speed multiplier reached after holding for KEYBOARD_PAN_ACCEL_MS
+export const KEYBOARD_PAN_ACCEL_MS = 1000;                   // Time for a held arrow key to reach full speed
+export const KEYBOARD_ZOOM_RATE = 2;                         // Zoom levels per second while +/- is held
+export const KEYBOARD_ROTATION_DEG_PER_SEC = 90;             // Rotation speed while Q/E is held
+export const KEYBOARD_MIN_PRESS_MS = 250;                    // A quick key press still moves the map for this long
+export const KEYBOARD_MAX_DT = 0.1;                          // Clamp frame dt to prevent huge jumps (in seconds)
 
 // ============================================================================
 // VISUALIZATION - Trail, circles, colors, timing
@@ -81,6 +153,7 @@ export const PAN_THRESHOLD = 0.1;                            // Minimum pan dist
 
 // Trail visualizer
 export const TRAIL_DURATION_MS = 250;                        // Trail point lifetime in milliseconds
+export const TRAIL_RESAMPLE_SPACING_PX = 4;                  // Trail points are placed this far apart along the path
 export const TRAIL_CIRCLE_RADIUS = 6;                        // Radius of the drag point circle (2x line width)
 export const TRAIL_LINE_WIDTH = 3;                           // Width of the trail line
 export const TRAIL_STROKE_COLOR = 'rgba(70, 70, 70, 0.8)';   // Trail line color
@@ -92,6 +165,7 @@ export const TRAIL_CIRCLE_COLOR_POSITIVE = 'rgba(255, 0, 0, 0.8)';      // Area
 export const TRAIL_CIRCLE_COLOR_NEGATIVE = 'rgba(0, 100, 255, 0.8)';    // Area circle stroke (negative)
 export const TRAIL_THRESHOLD_COLOR = 'rgba(0, 180, 0, 0.8)';            // Green threshold circle stroke
 export const TRAIL_THRESHOLD_FILL_COLOR = 'rgba(0, 180, 0, 0.4)';       // Green threshold circle fill (when blocked)
+export const TRAIL_ROTATE_COLOR = 'rgba(150, 0, 200, 0.8)';             // Trail and dial while whirl-to-rotate turns the map
 
 export const VIRTUAL_TOUCH_DURATION_MS = 2000;               // Virtual touch point lifetime after release
 
@@ -119,7 +193,7 @@ export const ZOOM_TEXT_X_OFFSET = 10;                        // Distance from ri
 // ============================================================================
 
 export const MAP_DEFAULT_CENTER = { lat: 37.7749, lng: -122.4194 };  // San Francisco
-export const MAP_DEFAULT_ZOOM = 12;                          // Initial zoom level
+export const MAP_DEFAULT_ZOOM = 13.5;                        // Initial zoom level
 export const MAP_DEFAULT_ROTATION = 0;                       // Initial rotation in degrees
 
 // ============================================================================
@@ -132,7 +206,7 @@ export const GEOLOCATION_FALLBACK_TIMEOUT_MS = 5000;         // Timeout for fall
 export const GEOLOCATION_WATCH_MAX_AGE_MS = 1000;            // Maximum age for watchPosition
 export const GEOLOCATION_WATCH_TIMEOUT_MS = 10000;           // Timeout for location watch
 
-export const LOCATION_BUTTON_ZOOM = 17;                      // Zoom level when centering on user location
+export const LOCATION_BUTTON_ZOOM = 18.5;                    // Zoom level when centering on user location
 
 // ============================================================================
 // ROUTES - Styling, line patterns
@@ -164,21 +238,25 @@ export const MARKER_COLOR = '#e74c3c';                       // Search result ma
 
 export const SEARCH_DEBOUNCE_MS = 300;                       // Debounce delay for search input
 export const SEARCH_MAX_AUTOCOMPLETE_RESULTS = 5;            // Max autocomplete suggestions shown
-export const SEARCH_DEFAULT_ZOOM = 15;                       // Zoom level for place search results
+export const SEARCH_DEFAULT_ZOOM = 16.5;                     // Zoom level for place search results
 
 export const DEBUG_TOGGLE_TAP_COUNT = 4;                     // Taps on clear button to toggle debug controls
 
 // ============================================================================
 // POI_CATEGORY_ZOOM - Minimum zoom levels for POI categories
 // ============================================================================
-
-export const POI_ZOOM_FOOD = 16;                             // Food & Drink category
-export const POI_ZOOM_NIGHTLIFE = 16;                        // Nightlife & Entertainment
-export const POI_ZOOM_OUTDOORS = 13;                         // Parks, beaches, nature
-export const POI_ZOOM_SPORTS = 15.5;                         // Sports & Fitness
-export const POI_ZOOM_SERVICES = 15.5;                       // Banks, hospitals, etc.
-export const POI_ZOOM_TRAVEL = 15;                           // Hotels, airports, transit
-export const POI_ZOOM_SHOPPING = 15.5;                       // Stores, malls
-export const POI_ZOOM_CULTURE = 15.5;                        // Museums, libraries, landmarks
-export const POI_ZOOM_HEALTH = 15.5;                         // Spas, salons, medical
-export const POI_ZOOM_OTHER = 13;                            // Convention centers, fairgrounds, etc.
+// Tile zooms like everything else here. Apple's zoom used to be read off the
+// latitude span, log2(360 / latitudeDelta), which on a phone viewport sits
+// about 1.5 levels below the tile zoom - these (and the search minZooms and
+// camera zooms above) were tuned on that scale and converted with +1.5.
+
+export const POI_ZOOM_FOOD = 17.5;                           // Food & Drink category
+export const POI_ZOOM_NIGHTLIFE = 17.5;                      // Nightlife & Entertainment
+export const POI_ZOOM_OUTDOORS = 14.5;                       // Parks, beaches, nature
+export const POI_ZOOM_SPORTS = 17;                           // Sports & Fitness
+export const POI_ZOOM_SERVICES = 17;                         // Banks, hospitals, etc.
+export const POI_ZOOM_TRAVEL = 16.5;                         // Hotels, airports, transit
+export const POI_ZOOM_SHOPPING = 17;                         // Stores, malls
+export const POI_ZOOM_CULTURE = 17;                          // Museums, libraries, landmarks
+export const POI_ZOOM_HEALTH = 17;                           // Spas, salons, medical
+export const POI_ZOOM_OTHER = 14.5;                          // Convention centers, fairgrounds, etc.
@@ -0,0 +1,283 @@
+import { MapProvider, ScreenPoint } from '../map/types';
+import { inputProfileFor } from './InputProfile';
+import {
+  GestureContext,
+  GestureDecision,
+  GestureRecognizer,
+  GestureSession,
+  SafariGestureEvent,
+  TrackedPointer,
+} from './types';
+
+type PointerPhase = 'onPointerDown' | 'onPointerMove' | 'onPointerUp';
+
+function createSession(pointerType = 'touch'): GestureSession {
+  return {
+    profile: inputProfileFor(pointerType),
+    anchor: null,
+    fingerX: 0,
+    fingerY: 0,
+    rotating: false,
+    zoomBlockStart: performance.now(),
+  };
+}
+
+/**
+ * GestureArbiter - Routes pointer events to registered recognizers and decides who owns the gesture.
+ *
+ * A round starts when the first pointer goes down. Every recognizer that
+ * hasn't yielded or been cancelled sees each event, highest priority first.
+ * If the recognizers that claimed the gesture all yield on a pointer up while
+ * other pointers stay down (e.g. a pinch losing a finger), a fresh round
+ * starts and the remaining pointers are replayed as pointer downs so a
+ * single-finger recognizer can take over cleanly.
+ */
+export class GestureArbiter {
+  private viewport: HTMLElement;
+  private recognizers: GestureRecognizer[] = [];
+  private pointers: Map<number, TrackedPointer> = new Map();
+  private active: Set<GestureRecognizer> = new Set();
+  private claimed: Set<GestureRecognizer> = new Set();
+  private session: GestureSession = createSession();
+  private frameId: number | null = null;
+  private ctx: GestureContext;
+
+  constructor(mapProvider: MapProvider, viewport: HTMLElement) {
+    this.viewport = viewport;
+    this.ctx = {
+      mapProvider,
+      viewport,
+      pointers: this.pointers,
+      session: this.session,
+      toViewportPoint: (clientX, clientY) => this.toViewportPoint(clientX, clientY),
+    };
+  }
+
+  addRecognizer(recognizer: GestureRecognizer): void {
+    if (this.recognizers.includes(recognizer)) return;
+    this.recognizers.push(recognizer);
+    // Stable sort keeps registration order among equal priorities
+    this.recognizers.sort((a, b) => b.priority - a.priority);
+    // Joins in with the next round
+  }
+
+  removeRecognizer(recognizer: GestureRecognizer): void {
+    const index = this.recognizers.indexOf(recognizer);
+    if (index === -1) return;
+    this.recognizers.splice(index, 1);
+    if (this.active.has(recognizer)) {
+      recognizer.cancel(this.ctx);
+      this.active.delete(recognizer);
+      this.claimed.delete(recognizer);
+    }
+    recognizer.stopInertia?.();
+  }
+
+  getRecognizers(): readonly GestureRecognizer[] {
+    return this.recognizers;
+  }
+
+  hasPointer(pointerId: number): boolean {
+    return this.pointers.has(pointerId);
+  }
+
+  get pointerCount(): number {
+    return this.pointers.size;
+  }
+
+  pointerDown(e: PointerEvent): void {
+    if (this.pointers.size === 0) {
+      // A new touch catches the map, whichever kind of inertia is moving it
+      this.stopInertia();
+      this.startRound(e.pointerType);
+    }
+
+    const now = performance.now();
+    this.pointers.set(e.pointerId, {
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      startTime: now,
+      lastX: e.clientX,
+      lastY: e.clientY,
+      lastTime: now,
+      lastEvent: e,
+    });
+
+    this.dispatch('onPointerDown', e);
+    this.startFrameLoop();
+  }
+
+  pointerMove(e: PointerEvent): void {
+    const pointer = this.pointers.get(e.pointerId);
+    if (!pointer) return;
+
+    this.dispatch('onPointerMove', e);
+
+    // Update after dispatch so recognizers can compare against the previous event
+    pointer.lastX = e.clientX;
+    pointer.lastY = e.clientY;
+    pointer.lastTime = performance.now();
+    pointer.lastEvent = e;
+  }
+
+  pointerUp(e: PointerEvent): void {
+    if (!this.pointers.has(e.pointerId)) return;
+    this.pointers.delete(e.pointerId);
+
+    const hadClaim = this.claimed.size > 0;
+    this.dispatch('onPointerUp', e);
+
+    if (this.pointers.size === 0) {
+      this.endRound();
+    } else if (hadClaim && this.claimed.size === 0) {
+      this.replayRemainingPointers();
+    }
+  }
+
+  wheel(e: WheelEvent): boolean {
+    for (const recognizer of [...this.recognizers]) {
+      if (recognizer.onWheel?.(e, this.ctx)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  safariGesture(e: SafariGestureEvent): boolean {
+    for (const recognizer of [...this.recognizers]) {
+      if (recognizer.onSafariGesture?.(e, this.ctx)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Cancel the gesture in progress (e.g. when custom interactions are disabled).
+   */
+  cancelAll(): void {
+    for (const recognizer of this.recognizers) {
+      if (this.active.has(recognizer)) {
+        recognizer.cancel(this.ctx);
+      }
+    }
+    this.pointers.clear();
+    this.endRound();
+  }
+
+  stopInertia(): void {
+    for (const recognizer of this.recognizers) {
+      recognizer.stopInertia?.();
+    }
+  }
+
+  destroy(): void {
+    this.cancelAll();
+    this.stopInertia();
+    this.recognizers = [];
+  }
+
+  private toViewportPoint(clientX: number, clientY: number): ScreenPoint {
+    const rect = this.viewport.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  }
+
+  private startRound(pointerType: string): void {
+    Object.assign(this.session, createSession(pointerType));
+    this.active = new Set(this.recognizers);
+    this.claimed.clear();
+    for (const recognizer of this.recognizers) {
+      recognizer.reset();
+    }
+  }
+
+  private endRound(): void {
+    this.active.clear();
+    this.claimed.clear();
+    this.stopFrameLoop();
+  }
+
+  private replayRemainingPointers(): void {
+    const remaining = [...this.pointers.values()];
+    this.pointers.clear();
+    this.startRound(remaining[0].lastEvent.pointerType);
+
+    for (const pointer of remaining) {
+      this.pointers.set(pointer.pointerId, pointer);
+      this.dispatch('onPointerDown', pointer.lastEvent);
+    }
+  }
+
+  private dispatch(phase: PointerPhase, e: PointerEvent): void {
+    // Snapshot: recognizers may be cancelled or removed while dispatching
+    for (const recognizer of [...this.recognizers]) {
+      if (!this.active.has(recognizer)) continue;
+      const decision = recognizer[phase](e, this.ctx);
+      this.applyDecision(recognizer, decision);
+    }
+  }
+
+  private applyDecision(recognizer: GestureRecognizer, decision: GestureDecision): void {
+    if (!this.active.has(recognizer)) return;
+
+    if (decision === 'yield') {
+      this.active.delete(recognizer);
+      this.claimed.delete(recognizer);
+      return;
+    }
+
+    if (decision !== 'claim' || this.claimed.has(recognizer)) return;
+
+    const conflicts = [...this.active].filter(
+      (other) => other !== recognizer && !this.canRunTogether(recognizer, other)
+    );
+
+    // A higher (or equal) priority recognizer that already claimed keeps the gesture
+    if (conflicts.some((other) => this.claimed.has(other) && other.priority >= recognizer.priority)) {
+      recognizer.cancel(this.ctx);
+      this.active.delete(recognizer);
+      return;
+    }
+
+    for (const other of conflicts) {
+      other.cancel(this.ctx);
+      this.active.delete(other);
+      this.claimed.delete(other);
+    }
+    this.claimed.add(recognizer);
+  }
+
+  private canRunTogether(a: GestureRecognizer, b: GestureRecognizer): boolean {
+    return (a.canRunWith?.(b) ?? false) || (b.canRunWith?.(a) ?? false);
+  }
+
+  private startFrameLoop(): void {
+    if (this.frameId !== null) return;
+
+    const loop = () => {
+      if (this.pointers.size === 0) {
+        this.frameId = null;
+        return;
+      }
+      for (const recognizer of [...this.recognizers]) {
+        if (this.active.has(recognizer) && recognizer.onFrame) {
+          const decision = recognizer.onFrame(this.ctx);
+          if (decision) {
+            this.applyDecision(recognizer, decision);
+          }
+        }
+      }
+      this.frameId = requestAnimationFrame(loop);
+    };
+
+    this.frameId = requestAnimationFrame(loop);
+  }
+
+  private stopFrameLoop(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InertiaAnimation, VelocityTracker } from './Inertia';
+import { settings } from '../settings';
+
+// A fake clock and animation frame queue stepped by hand
+let now = 0;
+let frames: FrameRequestCallback[] = [];
+
+function runFrames(frameMs: number): void {
+  while (frames.length > 0) {
+    now += frameMs;
+    const pending = frames;
+    frames = [];
+    for (const callback of pending) callback(now);
+  }
+}
+
+describe('InertiaAnimation', () => {
+  beforeEach(() => {
+    now = 0;
+    frames = [];
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => frames.push(callback));
+    vi.stubGlobal('cancelAnimationFrame', () => {
+      frames = [];
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('glides v·τ whatever the frame rate', () => {
+    const velocity = 2;
+    const timeConstantMs = 325;
+    for (const hz of [60, 120]) {
+      let distance = 0;
+      new InertiaAnimation().start(velocity, timeConstantMs, 1e-6, (delta) => {
+        distance += delta;
+      });
+      runFrames(1000 / hz);
+      expect(distance).toBeCloseTo(velocity * timeConstantMs, 2);
+    }
+  });
+});
+
+describe('VelocityTracker', () => {
+  it('fits only the samples within INERTIA_SAMPLE_WINDOW_MS', () => {
+    const window = settings.get('INERTIA_SAMPLE_WINDOW_MS');
+    const tracker = new VelocityTracker();
+
+    // A fast start, then 1 unit/ms for longer than the window
+    let t = 0;
+    tracker.add(0, t);
+    for (; t < 500; t += 10) tracker.add(50, t + 10);
+    for (; t < 500 + 2 * window; t += 10) tracker.add(10, t + 10);
+
+    expect(tracker.getVelocity(t)).toBeCloseTo(1, 9);
+  });
+
+  it('needs two recent samples', () => {
+    const tracker = new VelocityTracker();
+    tracker.add(0, 0);
+    tracker.add(100, 10);
+    expect(tracker.getVelocity(10 + settings.get('INERTIA_SAMPLE_WINDOW_MS'))).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { settings } from '../settings';
+
+interface PositionSample {
+  position: number; // Sum of the deltas so far
+  time: number;
+}
+
+/**
+ * VelocityTracker - Estimates the velocity of a single quantity (pixels, degrees,
+ * zoom levels, ...) from the deltas applied during a gesture.
+ *
+ * The velocity is the least-squares slope of position over time for the samples
+ * within INERTIA_SAMPLE_WINDOW_MS, so a single jittery event can't dominate it
+ * and the uneven spacing of pointer events doesn't skew it.
+ */
+export class VelocityTracker {
+  private samples: PositionSample[] = [];
+  private position = 0;
+
+  /**
+   * Record that delta was applied at time now (performance.now()).
+   * Add a zero delta to mark where a gesture starts.
+   */
+  add(delta: number, now: number): void {
+    this.position += delta;
+    this.samples.push({ position: this.position, time: now });
+    // Keep only samples that can still fall in the window
+    const window = settings.get('INERTIA_SAMPLE_WINDOW_MS');
+    while (this.samples.length > 0 && now - this.samples[0].time > window) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Release velocity in units per ms, or 0 if there aren't enough recent samples.
+   */
+  getVelocity(now: number): number {
+    const recentSamples = this.samples.filter(s => now - s.time < settings.get('INERTIA_SAMPLE_WINDOW_MS'));
+    if (recentSamples.length < 2) return 0;
+
+    let meanTime = 0;
+    let meanPosition = 0;
+    for (const sample of recentSamples) {
+      meanTime += sample.time;
+      meanPosition += sample.position;
+    }
+    meanTime /= recentSamples.length;
+    meanPosition /= recentSamples.length;
+
+    let covariance = 0;
+    let variance = 0;
+    for (const sample of recentSamples) {
+      const dt = sample.time - meanTime;
+      covariance += dt * (sample.position - meanPosition);
+      variance += dt * dt;
+    }
+    return variance > 0 ? covariance / variance : 0;
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.position = 0;
+  }
+}
+
+/**
+ * InertiaAnimation - Continues a velocity with exponential decay until it drops below a minimum.
+ *
+ * Each frame advances by the exact distance the decaying velocity covers in the
+ * real time since the previous frame, so the glide doesn't depend on frame rate.
+ */
+export class InertiaAnimation {
+  private animationId: number | null = null;
+
+  get running(): boolean {
+    return this.animationId !== null;
+  }
+
+  /**
+   * Start (or restart) the animation. velocity and minVelocity are in units per ms;
+   * step() applies the distance covered since the previous frame.
+   */
+  start(velocity: number, timeConstantMs: number, minVelocity: number, step: (delta: number) => void): void {
+    this.stop();
+    if (Math.abs(velocity) < minVelocity) return;
+
+    let v = velocity;
+    let lastTime = performance.now();
+    const animate = () => {
+      const now = performance.now();
+      const decay = Math.exp(-(now - lastTime) / timeConstantMs);
+      lastTime = now;
+
+      // Integral of v * e^(-t / timeConstant) over the frame
+      step(v * timeConstantMs * (1 - decay));
+      v *= decay;
+
+      if (Math.abs(v) > minVelocity) {
+        this.animationId = requestAnimationFrame(animate);
+      } else {
+        this.animationId = null;
+      }
+    };
+
+    this.animationId = requestAnimationFrame(animate);
+  }
+
+  stop(): void {
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+}
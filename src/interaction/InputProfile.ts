@@ -0,0 +1,42 @@
+import { isRotationEnabled, settings } from '../settings';
+import { rotationEdges, ScreenEdge } from './gearEdges';
+
+/**
+ * Per-device tuning for the single-pointer gestures.
+ */
+export interface InputProfile {
+  // Whirl zoom activation thresholds (normal and Alt1 mode)
+  zoomAreaThreshold: number;
+  zoomAlt1Threshold: number;
+  // Whirl zoom rate coefficient
+  zoomRateCoeff: number;
+  // Edges that rotate when dragged into (gear/edge zones); empty for none
+  rotationEdges: readonly ScreenEdge[];
+  // Rotate by shift-dragging or right-dragging
+  modifierRotation: boolean;
+}
+
+/**
+ * Build the profile for a PointerEvent.pointerType from the current settings.
+ * Pens behave like touch.
+ */
+export function inputProfileFor(pointerType: string): InputProfile {
+  if (pointerType === 'mouse') {
+    // A cursor sweeps bigger circles faster than a finger, and reaching a narrow
+    // edge zone with it is awkward, so rotation uses modifiers instead
+    return {
+      zoomAreaThreshold: settings.get('MOUSE_ZOOM_AREA_THRESHOLD'),
+      zoomAlt1Threshold: settings.get('MOUSE_ZOOM_ALT1_THRESHOLD'),
+      zoomRateCoeff: settings.get('MOUSE_ZOOM_RATE_COEFF'),
+      rotationEdges: [],
+      modifierRotation: isRotationEnabled(),
+    };
+  }
+  return {
+    zoomAreaThreshold: settings.get('ZOOM_AREA_THRESHOLD'),
+    zoomAlt1Threshold: settings.get('ZOOM_ALT1_THRESHOLD'),
+    zoomRateCoeff: settings.get('ZOOM_RATE_COEFF'),
+    rotationEdges: rotationEdges(),
+    modifierRotation: false,
+  };
+}
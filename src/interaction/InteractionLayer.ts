@@ -1,17 +1,17 @@
 import { MapProvider } from '../map/types';
-import { InteractionHandler } from './types';
+import { GestureArbiter } from './GestureArbiter';
+import { GestureRecognizer, SafariGestureEvent } from './types';
 
 export class InteractionLayer {
   private element: HTMLElement;
-  private handler: InteractionHandler;
   private mapProvider: MapProvider;
-  private activePointers: Set<number> = new Set();
+  private arbiter: GestureArbiter;
   private enabled: boolean = true;
 
-  constructor(element: HTMLElement, handler: InteractionHandler, mapProvider: MapProvider) {
+  constructor(element: HTMLElement, mapProvider: MapProvider) {
     this.element = element;
-    this.handler = handler;
     this.mapProvider = mapProvider;
+    this.arbiter = new GestureArbiter(mapProvider, element);
 
     this.bindEvents();
   }
@@ -23,17 +23,47 @@ export class InteractionLayer {
     document.addEventListener('pointerup', this.onPointerUp, true);
     document.addEventListener('pointercancel', this.onPointerUp, true);
 
+    // Right-drag rotates the map, so the context menu must not open over it
+    document.addEventListener('contextmenu', this.onContextMenu, true);
+
     // Wheel events - listen on document for the map area
     document.addEventListener('wheel', this.onWheelCapture, { passive: false, capture: true });
+
+    // Safari trackpad pinch/rotate (non-standard gesture events)
+    document.addEventListener('gesturestart', this.onSafariGesture, { passive: false, capture: true });
+    document.addEventListener('gesturechange', this.onSafariGesture, { passive: false, capture: true });
+    document.addEventListener('gestureend', this.onSafariGesture, { passive: false, capture: true });
   }
 
   private onWheelCapture = (e: WheelEvent): void => {
-    if (this.enabled && this.isEventOnMap(e)) {
+    // Panels over the map (e.g. the tuning panel) scroll themselves
+    const target = e.target as HTMLElement;
+    if (target.closest('[role="dialog"]')) return;
+
+    if (this.enabled && this.isEventOnMap(e) && this.arbiter.wheel(e)) {
       e.preventDefault();
-      this.handler.onWheel(e, this.mapProvider);
     }
   };
 
+  private onSafariGesture = (e: Event): void => {
+    const gesture = e as SafariGestureEvent;
+    // iOS Safari also reports touch pinches this way - those are handled as pointers
+    if (this.arbiter.pointerCount > 0) return;
+    // Only starting needs to happen on the map; a gesture in progress always gets to finish
+    if (gesture.type === 'gesturestart' && (!this.enabled || !this.isEventOnMap(gesture))) return;
+
+    if (this.arbiter.safariGesture(gesture)) {
+      e.preventDefault();
+    }
+  };
+
+  private onContextMenu = (e: MouseEvent): void => {
+    if (!this.enabled || !this.isEventOnMap(e)) return;
+    const target = e.target as HTMLElement;
+    if (target.closest('button, a, input, select, label, [role="button"], [role="dialog"]')) return;
+    e.preventDefault();
+  };
+
   private isEventOnMap(e: { clientX: number; clientY: number }): boolean {
     const rect = this.element.getBoundingClientRect();
     return (
@@ -49,36 +79,60 @@ export class InteractionLayer {
 
     // Skip interactive elements entirely - let their click handlers work
     const target = e.target as HTMLElement;
-    if (target.closest('button, a, input, [role="button"]')) {
+    if (target.closest('button, a, input, select, label, [role="button"], [role="dialog"]')) {
       return;
     }
 
-    this.activePointers.add(e.pointerId);
-    this.handler.onPointerDown(e, this.mapProvider, this.element);
+    // Camera changes between first pointer down and last pointer up belong to one gesture
+    if (this.arbiter.pointerCount === 0) {
+      this.mapProvider.beginGesture();
+    }
+    this.arbiter.pointerDown(e);
   };
 
   private onPointerMove = (e: PointerEvent): void => {
-    if (!this.activePointers.has(e.pointerId)) return;
+    if (!this.arbiter.hasPointer(e.pointerId)) return;
 
-    this.handler.onPointerMove(e, this.mapProvider, this.element);
+    this.arbiter.pointerMove(e);
   };
 
   private onPointerUp = (e: PointerEvent): void => {
-    if (!this.activePointers.has(e.pointerId)) return;
+    if (!this.arbiter.hasPointer(e.pointerId)) return;
 
-    this.activePointers.delete(e.pointerId);
-    this.handler.onPointerUp(e, this.mapProvider);
+    this.arbiter.pointerUp(e);
+    if (this.arbiter.pointerCount === 0) {
+      this.mapProvider.endGesture();
+    }
   };
 
-  setHandler(handler: InteractionHandler): void {
-    this.handler = handler;
+  /**
+   * Register a gesture recognizer. Takes part from the next gesture on.
+   */
+  addRecognizer(recognizer: GestureRecognizer): void {
+    this.arbiter.addRecognizer(recognizer);
+  }
+
+  /**
+   * Unregister a gesture recognizer, cancelling it if it's part of the current gesture.
+   */
+  removeRecognizer(recognizer: GestureRecognizer): void {
+    this.arbiter.removeRecognizer(recognizer);
+  }
+
+  getRecognizers(): readonly GestureRecognizer[] {
+    return this.arbiter.getRecognizers();
+  }
+
+  stopInertia(): void {
+    this.arbiter.stopInertia();
   }
 
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
-    // Clear active pointers when disabling to prevent stuck gestures
-    if (!enabled) {
-      this.activePointers.clear();
+    // Cancel the gesture in progress when disabling to prevent stuck gestures
+    if (!enabled && this.arbiter.pointerCount > 0) {
+      this.arbiter.cancelAll();
+      this.mapProvider.endGesture();
     }
   }
 
@@ -87,6 +141,11 @@ export class InteractionLayer {
     document.removeEventListener('pointermove', this.onPointerMove, true);
     document.removeEventListener('pointerup', this.onPointerUp, true);
     document.removeEventListener('pointercancel', this.onPointerUp, true);
+    document.removeEventListener('contextmenu', this.onContextMenu, true);
     document.removeEventListener('wheel', this.onWheelCapture, true);
+    document.removeEventListener('gesturestart', this.onSafariGesture, true);
+    document.removeEventListener('gesturechange', this.onSafariGesture, true);
+    document.removeEventListener('gestureend', this.onSafariGesture, true);
+    this.arbiter.destroy();
   }
 }
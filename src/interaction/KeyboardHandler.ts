@@ -0,0 +1,288 @@
+import { MapProvider } from '../map/types';
+import { LOCATION_BUTTON_ZOOM } from '../control';
+import { isRotationEnabled, settings } from '../settings';
+
+// Epsilons - not tunable, just small numbers
+const ZOOM_MIN_DELTA = 0.0001;
+
+// Keys held down continuously move the map; the others act once per press
+type HeldAction = 'pan-up' | 'pan-down' | 'pan-left' | 'pan-right' | 'zoom-in' | 'zoom-out' | 'rotate-ccw' | 'rotate-cw';
+type PressAction = 'reset-north' | 'my-location' | 'toggle-help' | 'close-help';
+
+const HELD_KEYS: Record<string, HeldAction> = {
+  ArrowUp: 'pan-up',
+  ArrowDown: 'pan-down',
+  ArrowLeft: 'pan-left',
+  ArrowRight: 'pan-right',
+  '+': 'zoom-in',
+  '=': 'zoom-in',
+  '-': 'zoom-out',
+  '_': 'zoom-out',
+  q: 'rotate-ccw',
+  e: 'rotate-cw',
+};
+
+const PRESS_KEYS: Record<string, PressAction> = {
+  n: 'reset-north',
+  l: 'my-location',
+  '?': 'toggle-help',
+  Escape: 'close-help',
+};
+
+/**
+ * Shortcut list shown by the help overlay. Keep in sync with HELD_KEYS / PRESS_KEYS.
+ */
+export const KEYBOARD_SHORTCUTS: ReadonlyArray<{ keys: string[]; description: string }> = [
+  { keys: ['↑', '↓', '←', '→'], description: 'Pan (hold to speed up)' },
+  { keys: ['+', '−'], description: 'Zoom in / out' },
+  { keys: ['Q', 'E'], description: 'Rotate left / right' },
+  { keys: ['N'], description: 'Reset to north' },
+  { keys: ['L'], description: 'My location' },
+  { keys: ['?'], description: 'Show / hide shortcuts' },
+];
+
+interface StopInertiaFn {
+  stopInertia(): void;
+}
+
+export interface ShortcutHelp {
+  toggle(): void;
+  hide(): void;
+  isVisible(): boolean;
+}
+
+interface HeldKey {
+  action: HeldAction;
+  pressedAt: number;
+  released: boolean;
+}
+
+/**
+ * KeyboardHandler - Keyboard navigation for the map.
+ *
+ * Arrow keys pan (accelerating while held), +/- zoom at the viewport center,
+ * Q/E rotate, N resets north and L recenters on the user. Held keys move the
+ * map smoothly from an animation frame loop rather than on key repeat. Keys
+ * typed into text fields (e.g. the search bar) are left alone, and tapping
+ * the map moves focus off them so the keys reach the map again.
+ */
+export class KeyboardHandler {
+  private element: HTMLElement;
+  private mapProvider: MapProvider;
+  private handler: StopInertiaFn | null;
+  private help: ShortcutHelp | null = null;
+  private heldKeys: Map<string, HeldKey> = new Map();
+  private animationId: number | null = null;
+  private lastFrameTime = 0;
+
+  constructor(element: HTMLElement, mapProvider: MapProvider, handler?: StopInertiaFn) {
+    this.element = element;
+    this.mapProvider = mapProvider;
+    this.handler = handler ?? null;
+
+    // Make the map focusable and announce it to assistive technology
+    this.element.tabIndex = 0;
+    this.element.setAttribute('role', 'application');
+    this.element.setAttribute('aria-label', 'Map. Press question mark for keyboard shortcuts.');
+    this.element.setAttribute('aria-keyshortcuts', 'ArrowUp ArrowDown ArrowLeft ArrowRight + - Q E N L ?');
+
+    this.bindEvents();
+  }
+
+  setHelp(help: ShortcutHelp | null): void {
+    this.help = help;
+  }
+
+  private bindEvents(): void {
+    document.addEventListener('keydown', this.onKeyDown);
+    document.addEventListener('keyup', this.onKeyUp);
+    document.addEventListener('pointerdown', this.onPointerDown, true);
+    window.addEventListener('blur', this.releaseAllKeys);
+  }
+
+  private onKeyDown = (e: KeyboardEvent): void => {
+    // Leave browser and OS shortcuts alone
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    if (this.isTypingTarget(e)) return;
+
+    const key = this.normalizeKey(e.key);
+    const held = HELD_KEYS[key];
+    const press = PRESS_KEYS[key];
+    if (!held && !press) return;
+
+    e.preventDefault();
+    if (e.repeat) return; // Held keys are animated, not driven by key repeat
+
+    if (held) {
+      // Track by physical key: with Shift released first, '+' comes back up as '='
+      this.heldKeys.set(e.code, { action: held, pressedAt: performance.now(), released: false });
+      this.startAnimation();
+    } else {
+      this.runPressAction(press);
+    }
+  };
+
+  private onKeyUp = (e: KeyboardEvent): void => {
+    const heldKey = this.heldKeys.get(e.code);
+    if (heldKey) {
+      // Keep animating until the minimum press time so a quick tap still nudges the map
+      heldKey.released = true;
+    }
+  };
+
+  private onPointerDown = (e: PointerEvent): void => {
+    if (!this.isEventOnMap(e)) return;
+    const target = e.target as HTMLElement;
+    if (target.closest('button, a, input, select, label, [role="button"], [role="dialog"]')) return;
+
+    // Tapping the map takes focus away from text fields so keyboard navigation works again,
+    // unless the tap is inside the field's own widget (e.g. the search results list)
+    const active = document.activeElement as HTMLElement | null;
+    if (active && active !== this.element && this.isEditable(active)) {
+      if (active.parentElement?.contains(target)) return;
+      active.blur();
+    }
+    this.element.focus({ preventScroll: true });
+  };
+
+  private releaseAllKeys = (): void => {
+    this.heldKeys.forEach((heldKey) => {
+      heldKey.released = true;
+    });
+  };
+
+  private normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+  }
+
+  private isTypingTarget(e: KeyboardEvent): boolean {
+    // composedPath() reaches into shadow DOM, where e.target would be the host
+    const origin = (e.composedPath()[0] ?? e.target) as HTMLElement | null;
+    return !!origin && this.isEditable(origin);
+  }
+
+  private isEditable(el: HTMLElement): boolean {
+    if (el.isContentEditable) return true;
+    const tag = el.tagName;
+    return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT';
+  }
+
+  private isEventOnMap(e: { clientX: number; clientY: number }): boolean {
+    const rect = this.element.getBoundingClientRect();
+    return (
+      e.clientX >= rect.left &&
+      e.clientX <= rect.right &&
+      e.clientY >= rect.top &&
+      e.clientY <= rect.bottom
+    );
+  }
+
+  private runPressAction(action: PressAction): void {
+    switch (action) {
+      case 'reset-north':
+        this.mapProvider.setRotation(0, true);
+        break;
+      case 'my-location':
+        this.handler?.stopInertia();
+        this.mapProvider.centerOnUserLocation(LOCATION_BUTTON_ZOOM, 0).catch(() => {
+          console.warn('Geolocation permission denied or unavailable.');
+        });
+        break;
+      case 'toggle-help':
+        this.help?.toggle();
+        break;
+      case 'close-help':
+        if (this.help?.isVisible()) {
+          this.help.hide();
+        }
+        break;
+    }
+  }
+
+  private startAnimation(): void {
+    if (this.animationId !== null) return;
+
+    this.handler?.stopInertia();
+    // Everything until the last key is released is one camera gesture
+    this.mapProvider.beginGesture();
+    this.lastFrameTime = performance.now();
+
+    const animate = () => {
+      const now = performance.now();
+      const dt = Math.min((now - this.lastFrameTime) / 1000, settings.get('KEYBOARD_MAX_DT'));
+      this.lastFrameTime = now;
+
+      this.applyHeldKeys(now, dt);
+
+      // Drop keys that are released and past the minimum press time
+      this.heldKeys.forEach((heldKey, key) => {
+        if (heldKey.released && now - heldKey.pressedAt >= settings.get('KEYBOARD_MIN_PRESS_MS')) {
+          this.heldKeys.delete(key);
+        }
+      });
+
+      if (this.heldKeys.size > 0) {
+        this.animationId = requestAnimationFrame(animate);
+      } else {
+        this.animationId = null;
+        this.mapProvider.endGesture();
+      }
+    };
+
+    this.animationId = requestAnimationFrame(animate);
+  }
+
+  private applyHeldKeys(now: number, dt: number): void {
+    let panX = 0;
+    let panY = 0;
+    let zoomDelta = 0;
+    let rotationDelta = 0;
+
+    const maxSpeedMult = settings.get('KEYBOARD_PAN_MAX_SPEED_MULT');
+    const accelMs = settings.get('KEYBOARD_PAN_ACCEL_MS');
+    const zoomRate = settings.get('KEYBOARD_ZOOM_RATE');
+    const rotationRate = settings.get('KEYBOARD_ROTATION_DEG_PER_SEC');
+
+    this.heldKeys.forEach((heldKey) => {
+      const heldFor = now - heldKey.pressedAt;
+      const ramp = accelMs > 0 ? Math.min(1, heldFor / accelMs) : 1;
+      const acceleration = 1 + (maxSpeedMult - 1) * ramp;
+      const pan = settings.get('KEYBOARD_PAN_SPEED_PX_PER_SEC') * acceleration * dt;
+
+      switch (heldKey.action) {
+        case 'pan-up': panY -= pan; break;
+        case 'pan-down': panY += pan; break;
+        case 'pan-left': panX -= pan; break;
+        case 'pan-right': panX += pan; break;
+        case 'zoom-in': zoomDelta += zoomRate * dt; break;
+        case 'zoom-out': zoomDelta -= zoomRate * dt; break;
+        case 'rotate-ccw': rotationDelta -= rotationRate * dt; break;
+        case 'rotate-cw': rotationDelta += rotationRate * dt; break;
+      }
+    });
+
+    if (panX !== 0 || panY !== 0) {
+      this.mapProvider.panBy(panX, panY);
+    }
+    if (Math.abs(zoomDelta) > ZOOM_MIN_DELTA) {
+      const rect = this.element.getBoundingClientRect();
+      this.mapProvider.zoomAtPoint(rect.width / 2, rect.height / 2, zoomDelta);
+    }
+    if (isRotationEnabled() && rotationDelta !== 0) {
+      this.mapProvider.setRotation(this.mapProvider.getRotation() + rotationDelta, false);
+    }
+  }
+
+  destroy(): void {
+    document.removeEventListener('keydown', this.onKeyDown);
+    document.removeEventListener('keyup', this.onKeyUp);
+    document.removeEventListener('pointerdown', this.onPointerDown, true);
+    window.removeEventListener('blur', this.releaseAllKeys);
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+      this.mapProvider.endGesture();
+    }
+    this.heldKeys.clear();
+  }
+}
@@ -0,0 +1,91 @@
+import { RotationMode } from '../control';
+import { InteractionLayer } from './InteractionLayer';
+import { GestureRecognizer } from './types';
+import { GearRotationRecognizer } from './recognizers/GearRotationRecognizer';
+import { EdgeRotationRecognizer } from './recognizers/EdgeRotationRecognizer';
+import { EdgeIndicator } from '../visualization/EdgeIndicator';
+import { GearIndicator } from '../visualization/GearIndicator';
+import { settings } from '../settings';
+
+/**
+ * RotationModeController - Keeps the single-finger rotation recognizer and its
+ * indicators in line with the ROTATION_MODE setting.
+ *
+ * Only the active mode's recognizer is registered and only its indicators
+ * exist. Switching mode cancels a rotation in progress, stops its loops and
+ * inertia and removes its indicators before the new mode is set up; the new
+ * recognizer takes part from the next gesture on.
+ */
+export class RotationModeController {
+  private interactionLayer: InteractionLayer;
+  private indicatorContainer: HTMLElement;
+  private mode: RotationMode = 'off';
+  private recognizer: GestureRecognizer | null = null;
+  private edgeIndicator: EdgeIndicator | null = null;
+  private gearIndicator: GearIndicator | null = null;
+  private unsubscribe: () => void;
+
+  constructor(interactionLayer: InteractionLayer, indicatorContainer: HTMLElement) {
+    this.interactionLayer = interactionLayer;
+    this.indicatorContainer = indicatorContainer;
+
+    this.setMode(settings.get('ROTATION_MODE'));
+    this.unsubscribe = settings.on('ROTATION_MODE', (mode) => this.setMode(mode));
+  }
+
+  getMode(): RotationMode {
+    return this.mode;
+  }
+
+  /**
+   * The registered rotation recognizer, or null when rotation is off.
+   */
+  getRecognizer(): GestureRecognizer | null {
+    return this.recognizer;
+  }
+
+  destroy(): void {
+    this.unsubscribe();
+    this.teardown();
+  }
+
+  private setMode(mode: RotationMode): void {
+    if (mode === this.mode) return;
+    this.teardown();
+    this.mode = mode;
+
+    if (mode === 'edge') {
+      this.edgeIndicator = new EdgeIndicator(this.indicatorContainer);
+      this.gearIndicator = new GearIndicator(this.indicatorContainer);
+      const edgeRotation = new EdgeRotationRecognizer();
+      edgeRotation.setEdgeIndicator(this.edgeIndicator);
+      edgeRotation.setGearIndicator(this.gearIndicator);
+      this.recognizer = edgeRotation;
+    } else if (mode === 'gear') {
+      this.gearIndicator = new GearIndicator(this.indicatorContainer);
+      const gearRotation = new GearRotationRecognizer();
+      gearRotation.setGearIndicator(this.gearIndicator);
+      this.recognizer = gearRotation;
+    }
+
+    if (this.recognizer) {
+      this.interactionLayer.addRecognizer(this.recognizer);
+    }
+  }
+
+  private teardown(): void {
+    // Removing cancels the recognizer, which hides the indicators and stops the edge loop
+    if (this.recognizer) {
+      this.interactionLayer.removeRecognizer(this.recognizer);
+      this.recognizer = null;
+    }
+    if (this.edgeIndicator) {
+      this.edgeIndicator.destroy();
+      this.edgeIndicator = null;
+    }
+    if (this.gearIndicator) {
+      this.gearIndicator.destroy();
+      this.gearIndicator = null;
+    }
+  }
+}
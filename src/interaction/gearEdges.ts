@@ -0,0 +1,113 @@
+import { GearDirection } from '../control';
+import { ScreenPoint } from '../map/types';
+import { settings } from '../settings';
+
+/**
+ * gearEdges.ts - Which viewport edges rotate the map, and how.
+ *
+ * Shared by the rotation recognizers, the drag clamping and GearIndicator so
+ * the gear shows up, holds the anchor and turns the map on the same edges.
+ */
+
+export type ScreenEdge = 'left' | 'right' | 'top' | 'bottom';
+
+// The bounds of a viewport: a DOMRect, or a container's own 0..width/0..height box
+export interface EdgeBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const SIDE_EDGES: readonly ScreenEdge[] = ['left', 'right'];
+
+/**
+ * The edges the gear rolls along, as chosen by GEAR_EDGE_MODE.
+ */
+export function gearEdges(): readonly ScreenEdge[] {
+  switch (settings.get('GEAR_EDGE_MODE')) {
+    case 'left': return ['left'];
+    case 'right': return ['right'];
+    case 'top-bottom': return ['top', 'bottom'];
+    default: return SIDE_EDGES;
+  }
+}
+
+/**
+ * The edges that rotate the map in the current ROTATION_MODE. Edge mode's
+ * bars are always on both sides.
+ */
+export function rotationEdges(): readonly ScreenEdge[] {
+  switch (settings.get('ROTATION_MODE')) {
+    case 'gear': return gearEdges();
+    case 'edge': return SIDE_EDGES;
+    default: return [];
+  }
+}
+
+function distanceToEdge(edge: ScreenEdge, x: number, y: number, bounds: EdgeBounds): number {
+  switch (edge) {
+    case 'left': return x - bounds.left;
+    case 'right': return bounds.right - x;
+    case 'top': return y - bounds.top;
+    case 'bottom': return bounds.bottom - y;
+  }
+}
+
+/**
+ * The nearest of edges that (x, y) is within distance of (or past), or null.
+ */
+export function edgeWithin(
+  x: number,
+  y: number,
+  bounds: EdgeBounds,
+  edges: readonly ScreenEdge[],
+  distance: number
+): ScreenEdge | null {
+  let nearest: ScreenEdge | null = null;
+  let nearestDistance = distance;
+  for (const edge of edges) {
+    const d = distanceToEdge(edge, x, y, bounds);
+    if (d <= nearestDistance) {
+      nearest = edge;
+      nearestDistance = d;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Keep (x, y) at least margin away from each of edges; other edges don't limit it.
+ */
+export function clampFromEdges(
+  x: number,
+  y: number,
+  bounds: EdgeBounds,
+  edges: readonly ScreenEdge[],
+  margin: number
+): ScreenPoint {
+  if (edges.includes('left')) x = Math.max(bounds.left + margin, x);
+  if (edges.includes('right')) x = Math.min(bounds.right - margin, x);
+  if (edges.includes('top')) y = Math.max(bounds.top + margin, y);
+  if (edges.includes('bottom')) y = Math.min(bounds.bottom - margin, y);
+  return { x, y };
+}
+
+/**
+ * Degrees to rotate the map (positive = clockwise) for a gear of rollingRadius
+ * rolling along edge by (dx, dy) without slipping. Only the movement along the
+ * edge counts; its direction mapping comes from the GEAR_DIRECTION_* settings.
+ */
+export function gearRotationDelta(edge: ScreenEdge, dx: number, dy: number, rollingRadius: number): number {
+  let along: number;
+  let direction: GearDirection;
+  switch (edge) {
+    case 'left': along = dy; direction = settings.get('GEAR_DIRECTION_LEFT'); break;
+    case 'right': along = dy; direction = settings.get('GEAR_DIRECTION_RIGHT'); break;
+    case 'top': along = dx; direction = settings.get('GEAR_DIRECTION_TOP'); break;
+    case 'bottom': along = dx; direction = settings.get('GEAR_DIRECTION_BOTTOM'); break;
+  }
+  // Rolling without slippage: angle = distance / radius (in radians)
+  const degrees = (along / rollingRadius) * (180 / Math.PI);
+  return direction === 'cw' ? degrees : -degrees;
+}
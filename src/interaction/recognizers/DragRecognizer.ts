@@ -0,0 +1,226 @@
+import { MapProvider, ScreenPoint } from '../../map/types';
+import { project, screenOffsetToWorld, worldOffsetToScreen } from '../../map/mercator';
+import { GestureContext, GestureDecision, GestureRecognizer } from '../types';
+import { InertiaAnimation, VelocityTracker } from '../Inertia';
+import { clampFromEdges } from '../gearEdges';
+import { TrailVisualizer } from '../../visualization/TrailVisualizer';
+import { settings } from '../../settings';
+
+/**
+ * DragRecognizer - Single-finger pan that keeps the touched map point under the finger.
+ *
+ * The anchor coordinate is captured on pointer down and re-placed under the
+ * finger once per frame (lower latency than doing it per pointer event).
+ * Claims the gesture once the finger moves beyond the tap slop and flings
+ * the map with inertia on release.
+ */
+export class DragRecognizer implements GestureRecognizer {
+  readonly name = 'drag';
+  readonly priority = 10;
+
+  private visualizer: TrailVisualizer | null = null;
+  private pointerId: number | null = null;
+  private startX = 0;
+  private startY = 0;
+  private claimed = false;
+
+  // Inertia state
+  private velocityX = new VelocityTracker();
+  private velocityY = new VelocityTracker();
+  private inertia = new InertiaAnimation();
+
+  // Previous frame's visual position (for GEAR_SYNC_WITH_MAP mode)
+  private prevVisualX = 0;
+  private prevVisualY = 0;
+
+  setVisualizer(visualizer: TrailVisualizer | null): void {
+    this.visualizer = visualizer;
+  }
+
+  onPointerDown(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (this.pointerId !== null) {
+      // A second finger ends the single-finger drag; it resumes if the others lift first
+      this.cancel(ctx);
+      return 'yield';
+    }
+
+    this.stopInertia();
+    this.resetVelocity();
+    this.velocityX.add(0, performance.now());
+    this.velocityY.add(0, performance.now());
+    this.pointerId = e.pointerId;
+    this.startX = e.clientX;
+    this.startY = e.clientY;
+
+    // Remember the geographic coordinate under the finger
+    const point = ctx.toViewportPoint(e.clientX, e.clientY);
+    ctx.session.anchor = ctx.mapProvider.screenToCoordinate(point.x, point.y);
+    ctx.session.fingerX = e.clientX;
+    ctx.session.fingerY = e.clientY;
+
+    this.prevVisualX = 0; // Reset so first frame uses finger position
+    this.prevVisualY = 0;
+
+    if (this.visualizer) {
+      this.visualizer.clearVirtualTouchPoint();
+    }
+    return 'possible';
+  }
+
+  onPointerMove(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (e.pointerId !== this.pointerId) return 'possible';
+    const pointer = ctx.pointers.get(e.pointerId);
+    if (!pointer) return 'possible';
+
+    ctx.session.fingerX = e.clientX;
+    ctx.session.fingerY = e.clientY;
+
+    // Track velocity for inertia
+    const now = performance.now();
+    this.velocityX.add(e.clientX - pointer.lastX, now);
+    this.velocityY.add(e.clientY - pointer.lastY, now);
+
+    if (!this.claimed && Math.hypot(e.clientX - this.startX, e.clientY - this.startY) > settings.get('TAP_SLOP_PX')) {
+      this.claimed = true;
+      return 'claim';
+    }
+    return 'possible';
+  }
+
+  onPointerUp(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (e.pointerId !== this.pointerId) return 'possible';
+    this.pointerId = null;
+
+    // Clear the drag point and leave a virtual touch point at the release position
+    if (this.visualizer) {
+      this.visualizer.clearDragPoint();
+      this.visualizer.setVirtualTouchPoint(e.clientX, e.clientY);
+    }
+
+    if (ctx.pointers.size === 0) {
+      this.startInertia(ctx.mapProvider);
+    }
+    this.resetVelocity();
+    return 'yield';
+  }
+
+  /**
+   * Position the map anchor under the finger. Runs every frame with the freshest finger position.
+   */
+  onFrame(ctx: GestureContext): void {
+    if (this.pointerId === null || !ctx.session.anchor) return;
+
+    const fingerX = ctx.session.fingerX;
+    const fingerY = ctx.session.fingerY;
+
+    // Clamp so the drag point stays within the gear margin from the rotating edges
+    // (only where the edges rotate - a mouse drags all the way)
+    const rect = ctx.viewport.getBoundingClientRect();
+    const rollingRadius = settings.get('GEAR_MARGIN_RATIO') * (settings.get('GEAR_SIZE_PX') / 2);
+    const clamped = clampFromEdges(fingerX, fingerY, rect, ctx.session.profile.rotationEdges, rollingRadius);
+
+    // If syncing with map, draw at the PREVIOUS frame's target position
+    // (map rendering is one frame behind, so the drag point should match that)
+    let visualX = clamped.x;
+    let visualY = clamped.y;
+    if (settings.get('GEAR_SYNC_WITH_MAP') && this.prevVisualX !== 0) {
+      visualX = this.prevVisualX;
+      visualY = this.prevVisualY;
+    }
+    this.prevVisualX = clamped.x;
+    this.prevVisualY = clamped.y;
+
+    // Position the map anchor at the clamped position (visual update happens next frame)
+    const target = ctx.toViewportPoint(clamped.x, clamped.y);
+    ctx.mapProvider.placeCoordinateAtScreenPoint(ctx.session.anchor, target.x, target.y);
+
+    // Update the drag point, then render immediately so it isn't a frame behind
+    // TrailVisualizer's own animation loop
+    if (this.visualizer) {
+      this.visualizer.updateDragPoint(visualX, visualY);
+      this.visualizer.render();
+    }
+  }
+
+  cancel(_ctx: GestureContext): void {
+    this.pointerId = null;
+    this.resetVelocity();
+    if (this.visualizer) {
+      this.visualizer.clearDragPoint();
+    }
+  }
+
+  reset(): void {
+    this.pointerId = null;
+    this.claimed = false;
+    this.resetVelocity();
+  }
+
+  stopInertia(): void {
+    this.inertia.stop();
+
+    // Clear virtual touch point when inertia stops
+    if (this.visualizer) {
+      this.visualizer.clearVirtualTouchPoint();
+    }
+  }
+
+  private resetVelocity(): void {
+    this.velocityX.reset();
+    this.velocityY.reset();
+  }
+
+  private startInertia(mapProvider: MapProvider): void {
+    const now = performance.now();
+    let velocity: ScreenPoint = { x: this.velocityX.getVelocity(now), y: this.velocityY.getVelocity(now) };
+    if (settings.get('INERTIA_RUBBER_BAND')) {
+      velocity = this.limitToLatitudeRange(mapProvider, velocity);
+    }
+
+    // The glide keeps its direction and decays as one speed
+    const speed = Math.hypot(velocity.x, velocity.y);
+    const minVelocity = settings.get('INERTIA_MIN_VELOCITY');
+    if (speed < minVelocity) return;
+    const directionX = velocity.x / speed;
+    const directionY = velocity.y / speed;
+
+    this.inertia.start(speed, settings.get('INERTIA_TIME_CONSTANT_MS'), minVelocity, (distance) => {
+      // Negative because panBy moves the map opposite to finger direction
+      const dx = -distance * directionX;
+      const dy = -distance * directionY;
+      mapProvider.panBy(dx, dy);
+
+      // Update virtual touch point to follow the map movement
+      if (this.visualizer) {
+        this.visualizer.updateVirtualTouchPoint(dx, dy);
+      }
+      // Don't clear virtual touch point when the glide ends - let it persist for 2 seconds
+    });
+  }
+
+  /**
+   * Rubber band: slow the north-south part of a fling just enough that the glide
+   * comes to rest at the latitude limit, instead of hitting the limit at speed
+   * and sliding along it.
+   */
+  private limitToLatitudeRange(mapProvider: MapProvider, velocity: ScreenPoint): ScreenPoint {
+    const zoom = mapProvider.getZoom();
+    const rotation = mapProvider.getRotation();
+    const center = mapProvider.getCenter();
+
+    // The map center moves opposite to the finger; world y grows southward
+    const centerVelocity = screenOffsetToWorld(-velocity.x, -velocity.y, rotation);
+    const centerY = project(center.lat, center.lng, zoom).y;
+    const maxLatitude = settings.get('INERTIA_RUBBER_BAND_LATITUDE');
+    const limitLatitude = centerVelocity.y < 0 ? maxLatitude : -maxLatitude;
+    const distanceToLimit = Math.abs(project(limitLatitude, center.lng, zoom).y - centerY);
+    const timeConstant = settings.get('INERTIA_TIME_CONSTANT_MS');
+
+    // The whole glide covers velocity * time constant
+    if (Math.abs(centerVelocity.y) * timeConstant <= distanceToLimit) return velocity;
+
+    const limitedY = Math.sign(centerVelocity.y) * distanceToLimit / timeConstant;
+    const limited = worldOffsetToScreen(centerVelocity.x, limitedY, rotation);
+    return { x: -limited.x, y: -limited.y };
+  }
+}
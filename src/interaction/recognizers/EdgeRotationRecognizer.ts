@@ -0,0 +1,139 @@
+import { GestureContext, GestureDecision, GestureRecognizer } from '../types';
+import { EdgeIndicator } from '../../visualization/EdgeIndicator';
+import { GearIndicator } from '../../visualization/GearIndicator';
+import { settings } from '../../settings';
+
+const PARTNERS = new Set(['drag', 'whirl']);
+
+/**
+ * EdgeRotationRecognizer - Rotates the map continuously while the dragging finger rests near an edge.
+ *
+ * EdgeIndicator owns the rotation loop and reports a signed rate; this
+ * recognizer applies it and keeps the anchored map point under the finger.
+ */
+export class EdgeRotationRecognizer implements GestureRecognizer {
+  readonly name = 'edge-rotation';
+  readonly priority = 22;
+
+  private edgeIndicator: EdgeIndicator | null = null;
+  private gearIndicator: GearIndicator | null = null;
+  private pointerId: number | null = null;
+  private ctx: GestureContext | null = null;
+  private lastRotationTime = 0;
+
+  setEdgeIndicator(edgeIndicator: EdgeIndicator | null): void {
+    this.edgeIndicator = edgeIndicator;
+    if (edgeIndicator) {
+      edgeIndicator.setRotationCallback(
+        (rate: number) => {
+          this.applyEdgeRotation(rate);
+        },
+        () => {
+          // Entering edge zone - treat as if drag hasn't started yet
+          if (this.ctx) {
+            this.ctx.session.rotating = true;
+          }
+        },
+        () => {
+          // Leaving edge zone - equivalent to starting a new drag gesture
+          this.lastRotationTime = 0;
+          if (this.ctx) {
+            this.ctx.session.rotating = false;
+            this.ctx.session.zoomBlockStart = performance.now(); // Start the guard-rail timeout
+          }
+        }
+      );
+    }
+  }
+
+  setGearIndicator(gearIndicator: GearIndicator | null): void {
+    this.gearIndicator = gearIndicator;
+  }
+
+  canRunWith(other: GestureRecognizer): boolean {
+    return PARTNERS.has(other.name);
+  }
+
+  onPointerDown(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    const { rotationEdges } = ctx.session.profile;
+    if (rotationEdges.length === 0) return 'yield';
+    if (this.pointerId !== null) {
+      this.hide();
+      return 'yield';
+    }
+    if (this.gearIndicator) {
+      this.gearIndicator.setEdges(rotationEdges);
+    }
+    this.pointerId = e.pointerId;
+    this.ctx = ctx;
+    this.lastRotationTime = 0; // Reset so first rotation frame uses default dt
+    return 'possible';
+  }
+
+  onPointerMove(e: PointerEvent, _ctx: GestureContext): GestureDecision {
+    if (e.pointerId !== this.pointerId) return 'possible';
+    if (this.edgeIndicator) {
+      this.edgeIndicator.update(e.clientX, e.clientY, true);
+      if (this.edgeIndicator.getRotationRate() !== 0) {
+        return 'claim';
+      }
+    }
+    return 'possible';
+  }
+
+  onPointerUp(e: PointerEvent, _ctx: GestureContext): GestureDecision {
+    if (e.pointerId !== this.pointerId) return 'possible';
+    this.hide();
+    return 'yield';
+  }
+
+  cancel(_ctx: GestureContext): void {
+    this.hide();
+  }
+
+  reset(): void {
+    this.pointerId = null;
+    this.lastRotationTime = 0;
+  }
+
+  private hide(): void {
+    // Hiding stops the rotation loop, which reports the stop before ctx is released
+    if (this.edgeIndicator) {
+      this.edgeIndicator.hide();
+    }
+    this.pointerId = null;
+    this.ctx = null;
+    this.lastRotationTime = 0;
+  }
+
+  private applyEdgeRotation(rate: number): void {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    const { mapProvider, session } = ctx;
+    const anchor = session.anchor;
+    if (!anchor) return;
+
+    const now = performance.now();
+    const dt = this.lastRotationTime > 0 ? (now - this.lastRotationTime) / 1000 : 1 / 60;
+    this.lastRotationTime = now;
+
+    // Clamp dt to prevent huge jumps
+    const clampedDt = Math.min(dt, settings.get('ROTATION_MAX_DT'));
+
+    // Rotation speed: degrees per second at full progress
+    const rotationDelta = rate * settings.get('ROTATION_SPEED_DEG_PER_SEC') * clampedDt;
+    const currentRotation = mapProvider.getRotation();
+    mapProvider.setRotation(currentRotation + rotationDelta, false);
+
+    // Reposition the anchor to keep the finger point stable
+    const target = ctx.toViewportPoint(session.fingerX, session.fingerY);
+    mapProvider.placeCoordinateAtScreenPoint(anchor, target.x, target.y);
+
+    // Update gear indicator every frame during rotation
+    if (this.gearIndicator) {
+      const anchorScreen = mapProvider.coordinateToScreen(anchor.lat, anchor.lng);
+      const rotation = mapProvider.getRotation();
+      this.gearIndicator.update(session.fingerX, session.fingerY, anchorScreen.x, anchorScreen.y, true, rotation);
+    }
+  }
+}
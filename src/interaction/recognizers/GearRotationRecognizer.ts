@@ -0,0 +1,220 @@
+import { LatLng, ScreenPoint } from '../../map/types';
+import { GestureContext, GestureDecision, GestureRecognizer } from '../types';
+import { InertiaAnimation, VelocityTracker } from '../Inertia';
+import { clampFromEdges, edgeWithin, gearRotationDelta, ScreenEdge } from '../gearEdges';
+import { GearIndicator } from '../../visualization/GearIndicator';
+import { settings } from '../../settings';
+
+// Epsilons - not tunable, just small numbers
+const ROTATION_DELTA_THRESHOLD = 0.01;
+
+const PARTNERS = new Set(['drag', 'whirl']);
+
+/**
+ * GearRotationRecognizer - Rotates the map by dragging vertically along a screen edge.
+ *
+ * While dragging, a gear follows the finger. When the finger reaches the
+ * gear margin at one of the rotating edges (GEAR_EDGE_MODE), movement along
+ * that edge rolls the gear without slipping and rotates the map by the same
+ * angle, in the direction set for that edge.
+ * Released mid-roll, the map keeps turning around the anchor with friction.
+ */
+export class GearRotationRecognizer implements GestureRecognizer {
+  readonly name = 'gear';
+  readonly priority = 22;
+
+  private gearIndicator: GearIndicator | null = null;
+  private pointerId: number | null = null;
+  private gearRotationActive = false;
+  private lastGearRotationPoint: ScreenPoint | null = null;
+  private gearEdge: ScreenEdge | null = null;
+
+  // Previous frame's visual position and rotation (for GEAR_SYNC_WITH_MAP mode)
+  private prevVisualX = 0;
+  private prevVisualY = 0;
+  private prevRotation: number | null = null;
+
+  // Rotation inertia state
+  private rotationVelocity = new VelocityTracker();
+  private rotationInertia = new InertiaAnimation();
+
+  setGearIndicator(gearIndicator: GearIndicator | null): void {
+    this.gearIndicator = gearIndicator;
+  }
+
+  canRunWith(other: GestureRecognizer): boolean {
+    return PARTNERS.has(other.name);
+  }
+
+  onPointerDown(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    const { rotationEdges } = ctx.session.profile;
+    if (rotationEdges.length === 0) return 'yield';
+    if (this.pointerId !== null) {
+      this.hide(ctx);
+      return 'yield';
+    }
+    if (this.gearIndicator) {
+      this.gearIndicator.setEdges(rotationEdges);
+    }
+    this.pointerId = e.pointerId;
+    this.rotationVelocity.reset();
+    this.prevVisualX = 0; // Reset so first frame uses finger position
+    this.prevVisualY = 0;
+    this.prevRotation = null; // Reset so first frame uses current rotation
+    return 'possible';
+  }
+
+  onPointerMove(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (e.pointerId !== this.pointerId) return 'possible';
+
+    // Use finger position for edge detection: activate rotation if the finger
+    // is near a rotating edge (or past it)
+    const rect = ctx.viewport.getBoundingClientRect();
+    const edgeThreshold = settings.get('GEAR_MARGIN_RATIO') * (settings.get('GEAR_SIZE_PX') / 2);
+    const edge = edgeWithin(e.clientX, e.clientY, rect, ctx.session.profile.rotationEdges, edgeThreshold);
+
+    const wasGearRotationActive = this.gearRotationActive;
+    this.gearRotationActive = edge !== null;
+
+    let decision: GestureDecision = 'possible';
+
+    // Entering the rotation zone blocks whirl zoom; rotation tracking starts in the next frame
+    if (this.gearRotationActive && !wasGearRotationActive) {
+      this.lastGearRotationPoint = null;
+      decision = 'claim';
+    }
+
+    // Leaving the rotation zone starts a fresh whirl zoom timeout
+    if (!this.gearRotationActive && wasGearRotationActive) {
+      ctx.session.zoomBlockStart = performance.now();
+      this.lastGearRotationPoint = null;
+      this.rotationVelocity.reset();
+    }
+
+    if (edge) {
+      // Track which edge the finger is near (rotation is applied in onFrame)
+      this.gearEdge = edge;
+    }
+    ctx.session.rotating = this.gearRotationActive;
+
+    return decision;
+  }
+
+  onPointerUp(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (e.pointerId !== this.pointerId) return 'possible';
+    if (this.gearRotationActive && ctx.session.anchor) {
+      this.startRotationInertia(ctx, ctx.session.anchor);
+    }
+    this.hide(ctx);
+    return 'yield';
+  }
+
+  /**
+   * Apply the rolled angle and move the gear. Runs before the drag re-places the anchor.
+   */
+  onFrame(ctx: GestureContext): void {
+    if (this.pointerId === null) return;
+
+    const fingerX = ctx.session.fingerX;
+    const fingerY = ctx.session.fingerY;
+
+    if (this.gearRotationActive && this.gearEdge && ctx.session.anchor) {
+      // On first frame of rotation, just initialize lastGearRotationPoint
+      if (!this.lastGearRotationPoint) {
+        this.lastGearRotationPoint = { x: fingerX, y: fingerY };
+      } else {
+        const rollingRadius = settings.get('GEAR_MARGIN_RATIO') * (settings.get('GEAR_SIZE_PX') / 2);
+        const rotationDelta = gearRotationDelta(
+          this.gearEdge,
+          fingerX - this.lastGearRotationPoint.x,
+          fingerY - this.lastGearRotationPoint.y,
+          rollingRadius
+        );
+
+        let appliedDelta = 0;
+        if (Math.abs(rotationDelta) > ROTATION_DELTA_THRESHOLD) {
+          const rotation = ctx.mapProvider.getRotation();
+          ctx.mapProvider.setRotation(rotation + rotationDelta, false);
+          appliedDelta = rotationDelta;
+        }
+        // Sample every frame so a finger that stops before lifting releases no spin
+        this.rotationVelocity.add(appliedDelta, performance.now());
+
+        this.lastGearRotationPoint = { x: fingerX, y: fingerY };
+      }
+    }
+
+    if (!this.gearIndicator) return;
+
+    // The gear sits where the drag keeps the anchor: clamped within the gear margin
+    const rect = ctx.viewport.getBoundingClientRect();
+    const rollingRadius = settings.get('GEAR_MARGIN_RATIO') * (settings.get('GEAR_SIZE_PX') / 2);
+    const clamped = clampFromEdges(fingerX, fingerY, rect, ctx.session.profile.rotationEdges, rollingRadius);
+
+    // If syncing with map, use the PREVIOUS frame's position and rotation
+    // (map rendering is one frame behind, so the gear should match that)
+    let visualX = clamped.x;
+    let visualY = clamped.y;
+    if (settings.get('GEAR_SYNC_WITH_MAP') && this.prevVisualX !== 0) {
+      visualX = this.prevVisualX;
+      visualY = this.prevVisualY;
+    }
+    this.prevVisualX = clamped.x;
+    this.prevVisualY = clamped.y;
+
+    const currentRotation = ctx.mapProvider.getRotation();
+    const gearRotation = (settings.get('GEAR_SYNC_WITH_MAP') && this.prevRotation !== null)
+      ? this.prevRotation
+      : currentRotation;
+    this.prevRotation = currentRotation;
+
+    // Gear uses viewport-relative coords (for CSS positioning)
+    this.gearIndicator.update(fingerX, fingerY, visualX - rect.left, visualY - rect.top, true, gearRotation);
+  }
+
+  cancel(ctx: GestureContext): void {
+    this.hide(ctx);
+  }
+
+  stopInertia(): void {
+    this.rotationInertia.stop();
+  }
+
+  reset(): void {
+    this.pointerId = null;
+    this.gearRotationActive = false;
+    this.lastGearRotationPoint = null;
+    this.gearEdge = null;
+  }
+
+  /**
+   * Keep turning with friction, holding the anchor at its current screen position.
+   */
+  private startRotationInertia(ctx: GestureContext, anchor: LatLng): void {
+    const { mapProvider } = ctx;
+    const velocity = this.rotationVelocity.getVelocity(performance.now());
+    this.rotationVelocity.reset();
+
+    const timeConstant = settings.get('ROTATION_INERTIA_TIME_CONSTANT_MS');
+    const minVelocity = settings.get('ROTATION_INERTIA_MIN_VELOCITY');
+
+    this.rotationInertia.start(velocity, timeConstant, minVelocity, (rotationDelta) => {
+      // The pan inertia may still be moving the anchor, so pivot around wherever it is now
+      const pivot = mapProvider.coordinateToScreen(anchor.lat, anchor.lng);
+      mapProvider.setRotation(mapProvider.getRotation() + rotationDelta, false);
+      mapProvider.placeCoordinateAtScreenPoint(anchor, pivot.x, pivot.y);
+    });
+  }
+
+  private hide(ctx: GestureContext): void {
+    if (this.gearIndicator) {
+      this.gearIndicator.hide();
+    }
+    if (this.gearRotationActive) {
+      ctx.session.rotating = false;
+    }
+    this.pointerId = null;
+    this.gearRotationActive = false;
+    this.lastGearRotationPoint = null;
+  }
+}
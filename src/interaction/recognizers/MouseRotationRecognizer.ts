@@ -0,0 +1,75 @@
+import { LatLng, ScreenPoint } from '../../map/types';
+import { GestureContext, GestureDecision, GestureRecognizer } from '../types';
+import { settings } from '../../settings';
+
+// Epsilons - not tunable, just small numbers
+const ROTATION_DELTA_THRESHOLD = 0.01;
+
+// PointerEvent.button for the secondary (usually right) mouse button
+const SECONDARY_BUTTON = 2;
+
+/**
+ * MouseRotationRecognizer - Shift-drag or right-drag rotates the map around the point pressed.
+ *
+ * Only for input profiles with modifier rotation (the mouse). Claims on
+ * pointer down, so the drag and whirl never see the press. Dragging right
+ * turns the map clockwise.
+ */
+export class MouseRotationRecognizer implements GestureRecognizer {
+  readonly name = 'mouse-rotation';
+  readonly priority = 24;
+
+  private pointerId: number | null = null;
+  private anchor: LatLng | null = null;
+  private anchorPoint: ScreenPoint = { x: 0, y: 0 };
+  private lastX = 0;
+
+  onPointerDown(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (!ctx.session.profile.modifierRotation || this.pointerId !== null) return 'yield';
+    if (e.button !== SECONDARY_BUTTON && !e.shiftKey) return 'yield';
+
+    this.pointerId = e.pointerId;
+    this.lastX = e.clientX;
+    this.anchorPoint = ctx.toViewportPoint(e.clientX, e.clientY);
+    this.anchor = ctx.mapProvider.screenToCoordinate(this.anchorPoint.x, this.anchorPoint.y);
+    ctx.session.rotating = true;
+    return 'claim';
+  }
+
+  onPointerMove(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (e.pointerId !== this.pointerId || !this.anchor) return 'possible';
+
+    const rotationDelta = (e.clientX - this.lastX) * settings.get('MOUSE_ROTATION_DEG_PER_PX');
+    this.lastX = e.clientX;
+
+    if (Math.abs(rotationDelta) > ROTATION_DELTA_THRESHOLD) {
+      ctx.mapProvider.setRotation(ctx.mapProvider.getRotation() + rotationDelta, false);
+      // Keep the pressed point in place so the map turns around it
+      ctx.mapProvider.placeCoordinateAtScreenPoint(this.anchor, this.anchorPoint.x, this.anchorPoint.y);
+    }
+    return 'possible';
+  }
+
+  onPointerUp(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (e.pointerId !== this.pointerId) return 'possible';
+    this.clear(ctx);
+    return 'yield';
+  }
+
+  cancel(ctx: GestureContext): void {
+    this.clear(ctx);
+  }
+
+  reset(): void {
+    this.pointerId = null;
+    this.anchor = null;
+  }
+
+  private clear(ctx: GestureContext): void {
+    if (this.pointerId !== null) {
+      ctx.session.rotating = false;
+    }
+    this.pointerId = null;
+    this.anchor = null;
+  }
+}
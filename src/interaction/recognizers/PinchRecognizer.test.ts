@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GestureArbiter } from '../GestureArbiter';
+import { HeadlessMapProvider } from '../../map/providers/HeadlessMapProvider';
+import { PinchRecognizer } from './PinchRecognizer';
+
+function pointer(pointerId: number, clientX: number, clientY: number): PointerEvent {
+  return { pointerId, clientX, clientY, pointerType: 'touch' } as PointerEvent;
+}
+
+describe('PinchRecognizer', () => {
+  let map: HeadlessMapProvider;
+  let arbiter: GestureArbiter;
+
+  beforeEach(() => {
+    vi.stubGlobal('requestAnimationFrame', () => 0);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    map = new HeadlessMapProvider(400, 800);
+    map.setCenterAndZoom(48.8566, 2.3522, 12, false);
+    const viewport = { getBoundingClientRect: () => ({ left: 0, top: 0 }) } as HTMLElement;
+    arbiter = new GestureArbiter(map, viewport);
+    arbiter.addRecognizer(new PinchRecognizer());
+  });
+
+  it('zooms by the change in finger distance about the anchored centroid', () => {
+    arbiter.pointerDown(pointer(1, 100, 400));
+    arbiter.pointerDown(pointer(2, 300, 400));
+    const anchor = map.screenToCoordinate(200, 400);
+
+    arbiter.pointerMove(pointer(2, 500, 400));
+
+    expect(map.getZoom()).toBeCloseTo(13, 9);
+    const screen = map.coordinateToScreen(anchor.lat, anchor.lng);
+    expect(screen.x).toBeCloseTo(300, 6);
+    expect(screen.y).toBeCloseTo(400, 6);
+  });
+
+  it('ignores a third finger and carries on smoothly when one of the pair lifts', () => {
+    arbiter.pointerDown(pointer(1, 100, 400));
+    arbiter.pointerDown(pointer(2, 300, 400));
+
+    // A third finger far away neither moves nor zooms the map
+    arbiter.pointerDown(pointer(3, 200, 700));
+    arbiter.pointerMove(pointer(3, 220, 750));
+    expect(map.getZoom()).toBeCloseTo(12, 9);
+
+    // Lifting one of the pair re-pins to the remaining fingers without a jump
+    const before = { center: map.getCenter(), zoom: map.getZoom() };
+    arbiter.pointerUp(pointer(1, 100, 400));
+    expect(map.getZoom()).toBeCloseTo(before.zoom, 9);
+    expect(map.getCenter().lat).toBeCloseTo(before.center.lat, 9);
+    expect(map.getCenter().lng).toBeCloseTo(before.center.lng, 9);
+
+    // ...and the new pair pinches from where it is
+    const anchor = map.screenToCoordinate(260, 575);
+    arbiter.pointerMove(pointer(3, 220, 1100));
+    expect(map.getZoom()).toBeCloseTo(12 + Math.log2(Math.hypot(80, 700) / Math.hypot(80, 350)), 9);
+    const screen = map.coordinateToScreen(anchor.lat, anchor.lng);
+    expect(screen.x).toBeCloseTo(260, 6);
+    expect(screen.y).toBeCloseTo(750, 6);
+  });
+});
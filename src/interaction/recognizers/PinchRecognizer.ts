@@ -0,0 +1,171 @@
+import { LatLng, ScreenPoint } from '../../map/types';
+import { GestureContext, GestureDecision, GestureRecognizer, TrackedPointer } from '../types';
+import { isRotationEnabled, settings } from '../../settings';
+
+// Epsilons - not tunable, just small numbers
+const MIN_FINGER_DISTANCE_PX = 1;
+const ZOOM_MIN_DELTA = 0.0001;
+const ROTATION_DELTA_THRESHOLD = 0.01;
+
+// Single-finger gestures may run until the second finger lands; they yield to the pinch then
+const PARTNERS = new Set(['drag', 'whirl', 'gear', 'edge-rotation']);
+
+type PinchAxis = 'zoom' | 'rotate';
+
+interface FingerPair {
+  centroid: ScreenPoint;
+  distance: number;
+  angle: number; // Degrees, clockwise on screen
+}
+
+/**
+ * PinchRecognizer - Two-finger pan, pinch zoom and twist rotation.
+ *
+ * The geographic point under the fingers' centroid when the second finger
+ * lands stays under the centroid for the whole pinch. With PINCH_AXIS_LOCK
+ * the pinch only pans until the accumulated zoom or twist passes its
+ * threshold; that axis is then locked in and the other is ignored.
+ * Claims as soon as a second finger goes down and yields when one lifts,
+ * letting a single-finger drag take over from the remaining finger.
+ *
+ * The pinch follows the two fingers it started with; further fingers are
+ * ignored until one of the pair lifts, when it carries on with another
+ * finger from where things are (re-anchored, so nothing jumps).
+ */
+export class PinchRecognizer implements GestureRecognizer {
+  readonly name = 'pinch';
+  readonly priority = 40;
+
+  private pair: [number, number] | null = null;
+  private anchor: LatLng | null = null;
+  private last: FingerPair | null = null;
+  private totalZoom = 0;
+  private totalRotation = 0;
+  private axis: PinchAxis | null = null;
+
+  canRunWith(other: GestureRecognizer): boolean {
+    return PARTNERS.has(other.name);
+  }
+
+  onPointerDown(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (this.pair || ctx.pointers.size !== 2) return 'possible';
+
+    this.totalZoom = 0;
+    this.totalRotation = 0;
+    this.axis = null;
+    this.pinPair(e, ctx);
+    return 'claim';
+  }
+
+  onPointerMove(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (!this.pair || !this.pair.includes(e.pointerId)) return 'possible';
+    if (!this.last || !this.anchor) return 'possible';
+
+    const current = this.measure(this.pair, e, ctx);
+    if (!current) return 'possible';
+    const centroid = ctx.toViewportPoint(current.centroid.x, current.centroid.y);
+
+    if (current.distance >= MIN_FINGER_DISTANCE_PX && this.last.distance >= MIN_FINGER_DISTANCE_PX) {
+      const zoomDelta = Math.log2(current.distance / this.last.distance);
+      let rotationDelta = current.angle - this.last.angle;
+      // Take the short way round when the angle wraps
+      if (rotationDelta > 180) rotationDelta -= 360;
+      if (rotationDelta < -180) rotationDelta += 360;
+
+      this.totalZoom += zoomDelta;
+      this.totalRotation += rotationDelta;
+      this.updateAxis();
+
+      if (this.allows('zoom') && Math.abs(zoomDelta) > ZOOM_MIN_DELTA) {
+        ctx.mapProvider.zoomAtPoint(centroid.x, centroid.y, zoomDelta);
+      }
+      if (isRotationEnabled() && this.allows('rotate') && Math.abs(rotationDelta) > ROTATION_DELTA_THRESHOLD) {
+        const rotation = ctx.mapProvider.getRotation();
+        ctx.mapProvider.setRotation(rotation + rotationDelta, false);
+      }
+    }
+
+    // Keep the anchored coordinate under the centroid (this also pans)
+    ctx.mapProvider.placeCoordinateAtScreenPoint(this.anchor, centroid.x, centroid.y);
+
+    this.last = current;
+    return 'possible';
+  }
+
+  onPointerUp(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (!this.pair || !this.pair.includes(e.pointerId)) return 'possible';
+    if (ctx.pointers.size < 2) {
+      this.clear();
+      return 'yield';
+    }
+
+    // One of the pair lifted but other fingers remain - continue with two of them
+    this.pinPair(e, ctx);
+    return 'possible';
+  }
+
+  cancel(_ctx: GestureContext): void {
+    this.clear();
+  }
+
+  reset(): void {
+    this.clear();
+  }
+
+  private clear(): void {
+    this.pair = null;
+    this.anchor = null;
+    this.last = null;
+    this.totalZoom = 0;
+    this.totalRotation = 0;
+    this.axis = null;
+  }
+
+  private updateAxis(): void {
+    if (!settings.get('PINCH_AXIS_LOCK') || this.axis) return;
+    if (Math.abs(this.totalZoom) > settings.get('PINCH_ZOOM_THRESHOLD')) {
+      this.axis = 'zoom';
+    } else if (Math.abs(this.totalRotation) > settings.get('PINCH_ROTATION_THRESHOLD_DEG')) {
+      this.axis = 'rotate';
+    }
+  }
+
+  private allows(axis: PinchAxis): boolean {
+    return !settings.get('PINCH_AXIS_LOCK') || this.axis === axis;
+  }
+
+  /**
+   * Follow the first two tracked pointers from here on, anchoring the
+   * geographic coordinate under their centroid.
+   */
+  private pinPair(e: PointerEvent, ctx: GestureContext): void {
+    const [id1, id2] = Array.from(ctx.pointers.keys());
+    this.pair = [id1, id2];
+    this.last = this.measure(this.pair, e, ctx);
+    if (!this.last) return;
+
+    const point = ctx.toViewportPoint(this.last.centroid.x, this.last.centroid.y);
+    this.anchor = ctx.mapProvider.screenToCoordinate(point.x, point.y);
+  }
+
+  /**
+   * Measure a pair of pointers, using this event's position for its own pointer.
+   * (Tracked pointers still hold their previous position while recognizers run.)
+   */
+  private measure(pair: [number, number], e: PointerEvent, ctx: GestureContext): FingerPair | null {
+    const p1 = ctx.pointers.get(pair[0]);
+    const p2 = ctx.pointers.get(pair[1]);
+    if (!p1 || !p2) return null;
+
+    const position = (p: TrackedPointer) =>
+      p.pointerId === e.pointerId ? { x: e.clientX, y: e.clientY } : { x: p.lastX, y: p.lastY };
+    const a = position(p1);
+    const b = position(p2);
+
+    return {
+      centroid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+      angle: Math.atan2(b.y - a.y, b.x - a.x) * (180 / Math.PI),
+    };
+  }
+}
@@ -0,0 +1,215 @@
+import { ScreenPoint } from '../../map/types';
+import { GestureContext, GestureDecision, GestureRecognizer } from '../types';
+import { settings } from '../../settings';
+
+// Epsilons - not tunable, just small numbers
+const ZOOM_MIN_DELTA = 0.0001;
+
+const PARTNERS = new Set(['pinch']);
+
+// 'single':     first finger down, may turn out to be the first tap of a double-tap
+// 'double':     second tap of a double-tap is down - tap zooms in, vertical drag zooms
+// 'two-finger': a second finger joined quickly, may turn out to be a two-finger tap
+type QuickZoomMode = 'idle' | 'single' | 'double' | 'two-finger';
+
+interface TapRecord {
+  time: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * QuickZoomRecognizer - Double-tap to zoom in, double-tap-and-drag to zoom, two-finger tap to zoom out.
+ *
+ * The first tap of a double-tap is an ordinary drag that never left the tap
+ * slop. When the second tap goes down close by in time and place, the
+ * gesture is claimed straight away, so the drag, the whirl (with its guard
+ * rail) and the gear edge zone never see it: dragging down then zooms in
+ * around the tap point and dragging up zooms out, independent of the edges.
+ */
+export class QuickZoomRecognizer implements GestureRecognizer {
+  readonly name = 'quick-zoom';
+  readonly priority = 35;
+
+  private mode: QuickZoomMode = 'idle';
+  private pointerId: number | null = null;
+  private startX = 0;
+  private startY = 0;
+  private startTime = 0;
+  private secondX = 0;
+  private secondY = 0;
+  private lastY = 0;
+  private dragging = false;
+
+  // Survives across rounds - the second tap of a double-tap starts a new one
+  private lastTap: TapRecord | null = null;
+
+  // Animation state for tap zooms
+  private animationId: number | null = null;
+
+  canRunWith(other: GestureRecognizer): boolean {
+    return PARTNERS.has(other.name);
+  }
+
+  onPointerDown(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    const pointer = ctx.pointers.get(e.pointerId);
+    if (!pointer) return 'yield';
+
+    if (this.mode === 'idle' && ctx.pointers.size === 1) {
+      this.pointerId = e.pointerId;
+      this.startX = pointer.startX;
+      this.startY = pointer.startY;
+      this.startTime = pointer.startTime;
+      this.lastY = e.clientY;
+      this.dragging = false;
+
+      if (this.isSecondTap()) {
+        this.stopInertia();
+        this.lastTap = null; // A third tap starts over
+        this.mode = 'double';
+        return 'claim';
+      }
+
+      this.mode = 'single';
+      return 'possible';
+    }
+
+    // A second finger shortly after the first, which hasn't moved, may be a two-finger tap
+    if (
+      this.mode === 'single' &&
+      ctx.pointers.size === 2 &&
+      pointer.startTime - this.startTime <= settings.get('TAP_MAX_DURATION_MS')
+    ) {
+      this.mode = 'two-finger';
+      this.secondX = pointer.startX;
+      this.secondY = pointer.startY;
+      this.lastTap = null;
+      return 'possible';
+    }
+
+    this.clear();
+    return 'yield';
+  }
+
+  onPointerMove(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    const pointer = ctx.pointers.get(e.pointerId);
+    if (!pointer) return 'possible';
+    const movedBeyondSlop = Math.hypot(e.clientX - pointer.startX, e.clientY - pointer.startY) > settings.get('TAP_SLOP_PX');
+
+    if (this.mode === 'single' || this.mode === 'two-finger') {
+      if (movedBeyondSlop) {
+        this.clear();
+        return 'yield';
+      }
+      return 'possible';
+    }
+
+    if (this.mode === 'double' && e.pointerId === this.pointerId) {
+      if (!this.dragging && movedBeyondSlop) {
+        this.dragging = true;
+        this.lastY = e.clientY; // Start zooming from here so the slop doesn't jump
+      }
+      if (this.dragging) {
+        const zoomDelta = (e.clientY - this.lastY) / settings.get('QUICK_ZOOM_DRAG_PX_PER_LEVEL');
+        if (Math.abs(zoomDelta) > ZOOM_MIN_DELTA) {
+          const point = ctx.toViewportPoint(this.startX, this.startY);
+          ctx.mapProvider.zoomAtPoint(point.x, point.y, zoomDelta);
+        }
+        this.lastY = e.clientY;
+      }
+    }
+    return 'possible';
+  }
+
+  onPointerUp(_e: PointerEvent, ctx: GestureContext): GestureDecision {
+    const isQuick = performance.now() - this.startTime <= settings.get('TAP_MAX_DURATION_MS');
+
+    switch (this.mode) {
+      case 'single':
+        if (isQuick) {
+          this.lastTap = { time: performance.now(), x: this.startX, y: this.startY };
+        }
+        break;
+
+      case 'double':
+        if (!this.dragging && isQuick) {
+          this.animateZoom(ctx, ctx.toViewportPoint(this.startX, this.startY), settings.get('QUICK_ZOOM_STEP'));
+        }
+        break;
+
+      case 'two-finger':
+        if (!isQuick) break;
+        if (ctx.pointers.size > 0) {
+          // Hold on to the gesture so the remaining finger isn't handed to the drag
+          return 'claim';
+        }
+        // Zoom out around the midpoint of where the fingers went down
+        this.animateZoom(
+          ctx,
+          ctx.toViewportPoint((this.startX + this.secondX) / 2, (this.startY + this.secondY) / 2),
+          -settings.get('QUICK_ZOOM_STEP')
+        );
+        break;
+    }
+
+    this.clear();
+    return 'yield';
+  }
+
+  cancel(_ctx: GestureContext): void {
+    this.clear();
+  }
+
+  reset(): void {
+    this.clear();
+  }
+
+  stopInertia(): void {
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  private clear(): void {
+    this.mode = 'idle';
+    this.pointerId = null;
+    this.dragging = false;
+  }
+
+  private isSecondTap(): boolean {
+    if (!this.lastTap) return false;
+    return (
+      this.startTime - this.lastTap.time <= settings.get('DOUBLE_TAP_THRESHOLD_MS') &&
+      Math.hypot(this.startX - this.lastTap.x, this.startY - this.lastTap.y) <= settings.get('QUICK_ZOOM_TAP_DISTANCE_PX')
+    );
+  }
+
+  /**
+   * Zoom by zoomDelta around a viewport point, easing out over QUICK_ZOOM_ANIMATION_MS.
+   */
+  private animateZoom(ctx: GestureContext, point: ScreenPoint, zoomDelta: number): void {
+    this.stopInertia();
+    const { mapProvider } = ctx;
+    const start = performance.now();
+    let applied = 0;
+
+    const animate = () => {
+      const duration = settings.get('QUICK_ZOOM_ANIMATION_MS');
+      // A zero duration jumps straight to the end (0 / 0 would be NaN on the first frame)
+      const t = duration > 0 ? Math.min(1, (performance.now() - start) / duration) : 1;
+      const eased = 1 - Math.pow(1 - t, 3);
+      const target = zoomDelta * eased;
+      mapProvider.zoomAtPoint(point.x, point.y, target - applied);
+      applied = target;
+
+      if (t < 1) {
+        this.animationId = requestAnimationFrame(animate);
+      } else {
+        this.animationId = null;
+      }
+    };
+
+    this.animationId = requestAnimationFrame(animate);
+  }
+}
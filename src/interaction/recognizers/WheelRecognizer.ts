@@ -0,0 +1,135 @@
+import { GestureContext, GestureDecision, GestureRecognizer, SafariGestureEvent } from '../types';
+import { isRotationEnabled, settings } from '../../settings';
+
+// Epsilons - not tunable, just small numbers
+const ZOOM_MIN_DELTA = 0.0001;
+const ROTATION_DELTA_THRESHOLD = 0.01;
+
+// WheelEvent.deltaMode values
+const DOM_DELTA_LINE = 1;
+const DOM_DELTA_PAGE = 2;
+
+type WheelSource = 'mouse' | 'trackpad';
+
+/**
+ * WheelRecognizer - Mouse wheel and trackpad navigation. Ignores pointers.
+ *
+ * - ctrl+wheel (how browsers report a trackpad pinch): zoom around the cursor
+ * - Line or page mode wheel (a mouse wheel): zoom around the cursor
+ * - Pixel mode wheel: a burst that starts with a large vertical-only delta is
+ *   a mouse wheel and zooms; anything else is a two-finger trackpad scroll and
+ *   pans. A burst keeps its classification so a scroll can't flip to zoom midway.
+ * - Safari gesture events (trackpad pinch and rotate): zoom and rotate around the cursor
+ */
+export class WheelRecognizer implements GestureRecognizer {
+  readonly name = 'wheel';
+  readonly priority = 0;
+
+  private burstSource: WheelSource | null = null;
+  private lastWheelTime = 0;
+
+  // Safari gesture state (scale and rotation are cumulative since gesturestart)
+  private safariGestureActive = false;
+  private lastScale = 1;
+  private lastRotation = 0;
+
+  onPointerDown(_e: PointerEvent, _ctx: GestureContext): GestureDecision {
+    return 'yield';
+  }
+
+  onPointerMove(_e: PointerEvent, _ctx: GestureContext): GestureDecision {
+    return 'yield';
+  }
+
+  onPointerUp(_e: PointerEvent, _ctx: GestureContext): GestureDecision {
+    return 'yield';
+  }
+
+  onWheel(e: WheelEvent, ctx: GestureContext): boolean {
+    const rect = ctx.viewport.getBoundingClientRect();
+    const scale = e.deltaMode === DOM_DELTA_LINE ? settings.get('WHEEL_LINE_HEIGHT_PX')
+      : e.deltaMode === DOM_DELTA_PAGE ? rect.height
+      : 1;
+    const deltaX = e.deltaX * scale;
+    const deltaY = e.deltaY * scale;
+    const point = ctx.toViewportPoint(e.clientX, e.clientY);
+
+    if (e.ctrlKey) {
+      // Trackpad pinch
+      this.zoomAt(ctx, point.x, point.y, -deltaY * settings.get('ZOOM_PINCH_WHEEL_SENSITIVITY'));
+      return true;
+    }
+
+    if (this.classify(e, deltaX, deltaY) === 'mouse') {
+      this.zoomAt(ctx, point.x, point.y, -deltaY * settings.get('ZOOM_WHEEL_SENSITIVITY'));
+    } else {
+      // Two-finger scroll moves the view the way the content would scroll
+      ctx.mapProvider.panBy(deltaX, deltaY);
+    }
+    return true;
+  }
+
+  onSafariGesture(e: SafariGestureEvent, ctx: GestureContext): boolean {
+    switch (e.type) {
+      case 'gesturestart':
+        this.safariGestureActive = true;
+        this.lastScale = 1;
+        this.lastRotation = 0;
+        ctx.mapProvider.beginGesture();
+        return true;
+
+      case 'gesturechange': {
+        if (!this.safariGestureActive) return false;
+        const point = ctx.toViewportPoint(e.clientX, e.clientY);
+        if (e.scale > 0 && this.lastScale > 0) {
+          this.zoomAt(ctx, point.x, point.y, Math.log2(e.scale / this.lastScale));
+        }
+        const rotationDelta = e.rotation - this.lastRotation;
+        if (isRotationEnabled() && Math.abs(rotationDelta) > ROTATION_DELTA_THRESHOLD) {
+          // Rotate around the cursor: keep the coordinate under it in place
+          const anchor = ctx.mapProvider.screenToCoordinate(point.x, point.y);
+          ctx.mapProvider.setRotation(ctx.mapProvider.getRotation() + rotationDelta, false);
+          ctx.mapProvider.placeCoordinateAtScreenPoint(anchor, point.x, point.y);
+        }
+        this.lastScale = e.scale;
+        this.lastRotation = e.rotation;
+        return true;
+      }
+
+      case 'gestureend':
+        if (!this.safariGestureActive) return false;
+        this.safariGestureActive = false;
+        ctx.mapProvider.endGesture();
+        return true;
+    }
+    return false;
+  }
+
+  cancel(ctx: GestureContext): void {
+    if (this.safariGestureActive) {
+      this.safariGestureActive = false;
+      ctx.mapProvider.endGesture();
+    }
+  }
+
+  reset(): void {}
+
+  private classify(e: WheelEvent, deltaX: number, deltaY: number): WheelSource {
+    const now = performance.now();
+    const newBurst = now - this.lastWheelTime > settings.get('WHEEL_GESTURE_GAP_MS');
+    this.lastWheelTime = now;
+
+    if (e.deltaMode !== 0) {
+      this.burstSource = 'mouse';
+    } else if (newBurst || this.burstSource === null) {
+      this.burstSource = deltaX === 0 && Math.abs(deltaY) >= settings.get('WHEEL_MOUSE_MIN_DELTA_PX') ? 'mouse' : 'trackpad';
+    }
+    return this.burstSource;
+  }
+
+  private zoomAt(ctx: GestureContext, x: number, y: number, zoomDelta: number): void {
+    if (Math.abs(zoomDelta) > ZOOM_MIN_DELTA) {
+      ctx.mapProvider.zoomAtPoint(x, y, zoomDelta);
+    }
+  }
+}
@@ -0,0 +1,304 @@
+import { LatLng, ScreenPoint } from '../../map/types';
+import { GestureContext, GestureDecision, GestureRecognizer } from '../types';
+import { InertiaAnimation, VelocityTracker } from '../Inertia';
+import { TrailVisualizer } from '../../visualization/TrailVisualizer';
+import { settings } from '../../settings';
+
+// Epsilons - not tunable, just small numbers
+const ZOOM_MIN_DELTA = 0.0001;
+const ROTATION_DELTA_THRESHOLD = 0.01;
+
+const PARTNERS = new Set(['drag', 'gear', 'edge-rotation']);
+
+/**
+ * What circling does: zoom by the signed area ('normal'), zoom by the compound
+ * value of area and swept angle ('alt1'), or rotate by the swept angle ('rotate').
+ */
+export type WhirlMode = 'normal' | 'alt1' | 'rotate';
+
+/**
+ * WhirlZoomRecognizer - Zooms while a single finger circles during a drag.
+ *
+ * The finger's recent trail (kept by TrailVisualizer) gives a signed area, or
+ * in Alt1 mode a compound value of area and swept angle. Once that crosses a
+ * threshold the gesture is claimed and the value drives the zoom rate around
+ * the finger. Zoom is blocked for a short guard-rail time after the drag
+ * starts and while a rotation recognizer is rotating. Released while
+ * zooming, the zoom carries on around the last finger position with friction.
+ *
+ * In rotate mode circling doesn't zoom. Circling with Alt held, or after
+ * holding still for the long-press duration, claims the gesture from the
+ * drag and turns the map around the anchor by the angle swept around the
+ * trail's center.
+ */
+export class WhirlZoomRecognizer implements GestureRecognizer {
+  readonly name = 'whirl';
+  readonly priority = 20;
+
+  private visualizer: TrailVisualizer | null = null;
+  private pointerId: number | null = null;
+  private mode: WhirlMode = 'normal';
+  private zoomActivated = false;
+  private alt1ZoomActivated = false;
+  private wasRotating = false;
+
+  // Zoom inertia state
+  private zoomVelocity = new VelocityTracker();
+  private zoomInertia = new InertiaAnimation();
+  private lastZoomPoint: ScreenPoint | null = null;
+
+  // Whirl-to-rotate state
+  private movedBeforeHold = false;
+  private rotateEngaged = false;
+  private rotatedDegrees = 0;
+  private rotationAnchor: LatLng | null = null;
+  private rotationPivot: ScreenPoint = { x: 0, y: 0 };
+
+  setVisualizer(visualizer: TrailVisualizer | null): void {
+    this.visualizer = visualizer;
+    if (visualizer) {
+      visualizer.setRotateMode(this.mode === 'rotate');
+    }
+  }
+
+  setMode(mode: WhirlMode): void {
+    this.mode = mode;
+    if (this.visualizer) {
+      this.visualizer.setRotateMode(mode === 'rotate');
+    }
+  }
+
+  getMode(): WhirlMode {
+    return this.mode;
+  }
+
+  canRunWith(other: GestureRecognizer): boolean {
+    // Turning the map around the anchor needs the drag to stop moving it
+    if (this.rotateEngaged) return other.name !== 'drag' && PARTNERS.has(other.name);
+    return PARTNERS.has(other.name);
+  }
+
+  onPointerDown(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (this.pointerId !== null) {
+      // A second finger isn't a whirl
+      this.setRotateEngaged(false);
+      this.clearTrail();
+      return 'yield';
+    }
+    this.pointerId = e.pointerId;
+    this.zoomVelocity.reset();
+    this.lastZoomPoint = null;
+    this.movedBeforeHold = false;
+    this.setRotateEngaged(false);
+
+    this.setActivated(false);
+    if (this.visualizer) {
+      const { profile } = ctx.session;
+      this.visualizer.setZoomThresholds(profile.zoomAreaThreshold, profile.zoomAlt1Threshold);
+      this.visualizer.setZoomBlocked(ctx.session.rotating, ctx.session.zoomBlockStart);
+      this.visualizer.clear();
+      this.visualizer.addPoint(e.clientX, e.clientY);
+    }
+    return 'possible';
+  }
+
+  onPointerMove(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (e.pointerId !== this.pointerId) return 'possible';
+    const pointer = ctx.pointers.get(e.pointerId);
+    if (!pointer || !this.visualizer) return 'possible';
+
+    // Add point to visualizer first
+    const addedPoints = this.visualizer.addPoint(e.clientX, e.clientY);
+
+    if (this.mode === 'rotate') {
+      return this.rotateMove(e, ctx, addedPoints);
+    }
+
+    // Entering a rotation zone - treat as if the drag hasn't started yet
+    const rotating = ctx.session.rotating;
+    if (rotating && !this.wasRotating) {
+      this.setActivated(false);
+    }
+    this.wasRotating = rotating;
+
+    // Check if zoom is still blocked (rotating OR within guard-rail timeout)
+    const now = performance.now();
+    const isZoomBlocked = rotating || now - ctx.session.zoomBlockStart < settings.get('ZOOM_BLOCK_DURATION_MS');
+    this.visualizer.setZoomBlocked(rotating, ctx.session.zoomBlockStart);
+
+    // Calculate time delta in seconds
+    const dt = (now - pointer.lastTime) / 1000;
+    if (dt <= 0 || isZoomBlocked) return 'possible';
+
+    const alt1Mode = this.mode === 'alt1';
+    const value = alt1Mode ? this.visualizer.getCompoundZoomValue() : this.visualizer.getSignedArea();
+    const { profile } = ctx.session;
+    const threshold = alt1Mode ? profile.zoomAlt1Threshold : profile.zoomAreaThreshold;
+
+    // Activate zoom once the value crosses the threshold
+    let decision: GestureDecision = 'possible';
+    if (!this.isActivated() && Math.abs(value) > threshold) {
+      this.setActivated(true);
+      decision = 'claim';
+    }
+
+    if (this.isActivated()) {
+      // Normalize by sqrt(value) vs minimal viewport dimension, then convert to a zoom rate
+      const rect = ctx.viewport.getBoundingClientRect();
+      const minViewportDimension = Math.min(rect.width, rect.height);
+      const normalizedValue = Math.sqrt(Math.abs(value)) / minViewportDimension * Math.sign(value);
+      const zoomDelta = normalizedValue * profile.zoomRateCoeff * dt;
+      const point = ctx.toViewportPoint(e.clientX, e.clientY);
+
+      let appliedDelta = 0;
+      if (Math.abs(zoomDelta) > ZOOM_MIN_DELTA) {
+        ctx.mapProvider.zoomAtPoint(point.x, point.y, zoomDelta);
+        appliedDelta = zoomDelta;
+      }
+      this.zoomVelocity.add(appliedDelta, now);
+      this.lastZoomPoint = point;
+    }
+
+    return decision;
+  }
+
+  onPointerUp(e: PointerEvent, ctx: GestureContext): GestureDecision {
+    if (e.pointerId !== this.pointerId) return 'possible';
+    // The trail is left to fade out on its own
+    this.pointerId = null;
+    if (this.isActivated() && this.lastZoomPoint) {
+      this.startZoomInertia(ctx, this.lastZoomPoint);
+    }
+    if (this.rotateEngaged && this.visualizer) {
+      this.visualizer.clearDragPoint();
+    }
+    this.setRotateEngaged(false);
+    return 'yield';
+  }
+
+  /**
+   * In rotate mode, a finger held still for the long-press duration starts whirl-to-rotate.
+   */
+  onFrame(ctx: GestureContext): GestureDecision | void {
+    if (this.mode !== 'rotate' || this.pointerId === null || this.rotateEngaged || this.movedBeforeHold) return;
+    const pointer = ctx.pointers.get(this.pointerId);
+    if (!pointer || performance.now() - pointer.startTime < settings.get('LONG_PRESS_DURATION_MS')) return;
+    return this.engageRotation(ctx) ? 'claim' : undefined;
+  }
+
+  cancel(_ctx: GestureContext): void {
+    this.pointerId = null;
+    this.setRotateEngaged(false);
+    this.clearTrail();
+  }
+
+  stopInertia(): void {
+    this.zoomInertia.stop();
+  }
+
+  reset(): void {
+    this.pointerId = null;
+    this.wasRotating = false;
+    this.zoomActivated = false;
+    this.alt1ZoomActivated = false;
+    this.movedBeforeHold = false;
+    this.rotateEngaged = false;
+  }
+
+  private rotateMove(e: PointerEvent, ctx: GestureContext, addedPoints: number): GestureDecision {
+    if (!this.visualizer) return 'possible';
+    const pointer = ctx.pointers.get(e.pointerId);
+    if (pointer && Math.hypot(e.clientX - pointer.startX, e.clientY - pointer.startY) > settings.get('TAP_SLOP_PX')) {
+      this.movedBeforeHold = true;
+    }
+
+    let decision: GestureDecision = 'possible';
+    if (!this.rotateEngaged) {
+      if (!e.altKey || !this.engageRotation(ctx)) return 'possible';
+      decision = 'claim';
+    }
+
+    // The drag no longer moves the finger's dot, so keep it up to date here
+    this.visualizer.updateDragPoint(e.clientX, e.clientY);
+
+    // An edge rotation recognizer turning the map takes precedence
+    if (ctx.session.rotating || !this.rotationAnchor) return decision;
+
+    const minRadius = settings.get('WHIRL_ROTATE_MIN_RADIUS_PX');
+    const sweptDegrees = this.visualizer.getRecentSweptAngle(addedPoints, minRadius) * (180 / Math.PI);
+    const rotationDelta = sweptDegrees * settings.get('WHIRL_ROTATE_GAIN');
+    if (Math.abs(rotationDelta) > ROTATION_DELTA_THRESHOLD) {
+      const { mapProvider } = ctx;
+      mapProvider.setRotation(mapProvider.getRotation() + rotationDelta, false);
+      mapProvider.placeCoordinateAtScreenPoint(this.rotationAnchor, this.rotationPivot.x, this.rotationPivot.y);
+      this.rotatedDegrees += rotationDelta;
+      this.visualizer.setWhirlRotation(true, this.rotatedDegrees);
+    }
+    return decision;
+  }
+
+  /**
+   * Start turning the map around the anchor (the coordinate the drag keeps under the finger),
+   * pinned at its current screen position. Returns false if there's no anchor yet.
+   */
+  private engageRotation(ctx: GestureContext): boolean {
+    const anchor = ctx.session.anchor;
+    if (!anchor) return false;
+    this.rotationAnchor = anchor;
+    this.rotationPivot = ctx.mapProvider.coordinateToScreen(anchor.lat, anchor.lng);
+    this.setRotateEngaged(true);
+    return true;
+  }
+
+  private setRotateEngaged(engaged: boolean): void {
+    this.rotateEngaged = engaged;
+    this.rotatedDegrees = 0;
+    if (!engaged) {
+      this.rotationAnchor = null;
+    }
+    if (this.visualizer) {
+      this.visualizer.setWhirlRotation(engaged, 0);
+    }
+  }
+
+  private startZoomInertia(ctx: GestureContext, point: ScreenPoint): void {
+    const { mapProvider } = ctx;
+    const velocity = this.zoomVelocity.getVelocity(performance.now());
+    this.zoomVelocity.reset();
+
+    const timeConstant = settings.get('ZOOM_INERTIA_TIME_CONSTANT_MS');
+    const minVelocity = settings.get('ZOOM_INERTIA_MIN_VELOCITY');
+
+    this.zoomInertia.start(velocity, timeConstant, minVelocity, (zoomDelta) => {
+      mapProvider.zoomAtPoint(point.x, point.y, zoomDelta);
+    });
+  }
+
+  private isActivated(): boolean {
+    return this.mode === 'alt1' ? this.alt1ZoomActivated : this.zoomActivated;
+  }
+
+  private setActivated(activated: boolean): void {
+    if (this.mode === 'alt1') {
+      this.alt1ZoomActivated = activated;
+    } else {
+      this.zoomActivated = activated;
+    }
+    if (!activated) {
+      this.zoomActivated = false;
+      this.alt1ZoomActivated = false;
+    }
+
+    if (this.visualizer) {
+      this.visualizer.setZoomActivated(this.zoomActivated);
+      this.visualizer.setAlt1ZoomActivated(this.alt1ZoomActivated);
+    }
+  }
+
+  private clearTrail(): void {
+    this.setActivated(false);
+    if (this.visualizer) {
+      this.visualizer.clear();
+    }
+  }
+}
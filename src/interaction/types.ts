@@ -1,8 +1,95 @@
-import { MapProvider } from '../map/types';
+import { LatLng, MapProvider, ScreenPoint } from '../map/types';
+import { InputProfile } from './InputProfile';
 
-export interface InteractionHandler {
-  onPointerDown(e: PointerEvent, mapProvider: MapProvider, viewport: HTMLElement): void;
-  onPointerMove(e: PointerEvent, mapProvider: MapProvider, viewport: HTMLElement): void;
-  onPointerUp(e: PointerEvent, mapProvider: MapProvider): void;
-  onWheel(e: WheelEvent, mapProvider: MapProvider): void;
+// A pointer currently down on the map. While recognizers handle an event the
+// fields still describe the pointer's PREVIOUS event; they are updated afterwards.
+export interface TrackedPointer {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startTime: number;
+  lastX: number;
+  lastY: number;
+  lastTime: number;
+  lastEvent: PointerEvent;
+}
+
+// State shared by the recognizers taking part in one gesture. Reset whenever
+// a new arbitration round starts.
+export interface GestureSession {
+  // Tuning for the device that started the gesture (mouse, touch or pen)
+  profile: InputProfile;
+  // The geographic coordinate that should stay under the dragging finger
+  anchor: LatLng | null;
+  // Latest client position of the dragging finger
+  fingerX: number;
+  fingerY: number;
+  // A rotation recognizer is rotating the map - whirl zoom is blocked meanwhile
+  rotating: boolean;
+  // When the whirl zoom guard-rail timer (re)started
+  zoomBlockStart: number;
+}
+
+export interface GestureContext {
+  readonly mapProvider: MapProvider;
+  readonly viewport: HTMLElement;
+  readonly pointers: ReadonlyMap<number, TrackedPointer>;
+  readonly session: GestureSession;
+  // Convert client coordinates to the viewport-relative coordinates MapProvider expects
+  toViewportPoint(clientX: number, clientY: number): ScreenPoint;
+}
+
+// Safari's non-standard trackpad pinch/rotate events (gesturestart, gesturechange, gestureend).
+// scale and rotation are cumulative since gesturestart; rotation is clockwise in degrees.
+export interface SafariGestureEvent extends UIEvent {
+  readonly scale: number;
+  readonly rotation: number;
+  readonly clientX: number;
+  readonly clientY: number;
+}
+
+/**
+ * What a recognizer wants after seeing an event:
+ * - 'possible': still watching, not exclusive (it may give harmless feedback meanwhile)
+ * - 'claim':    the gesture is mine; recognizers that can't run alongside are cancelled
+ * - 'yield':    not mine (any more); no further events until the next round
+ */
+export type GestureDecision = 'possible' | 'claim' | 'yield';
+
+/**
+ * A single gesture (drag, whirl, pinch, quick zoom, ...) registered with InteractionLayer.
+ *
+ * All registered recognizers see every event of a round in descending
+ * priority order until they yield or are cancelled. When one claims, the
+ * others are cancelled unless either side allows running together via
+ * canRunWith(); between two claimants the higher priority wins.
+ */
+export interface GestureRecognizer {
+  readonly name: string;
+  readonly priority: number;
+
+  onPointerDown(e: PointerEvent, ctx: GestureContext): GestureDecision;
+  onPointerMove(e: PointerEvent, ctx: GestureContext): GestureDecision;
+  onPointerUp(e: PointerEvent, ctx: GestureContext): GestureDecision;
+
+  // Called once per animation frame while pointers are down. May claim or
+  // yield for time-based gestures (e.g. long press) that no event triggers
+  onFrame?(ctx: GestureContext): GestureDecision | void;
+
+  // Return true to consume the wheel event
+  onWheel?(e: WheelEvent, ctx: GestureContext): boolean;
+
+  // Safari trackpad gesture events outside of any pointer gesture. Return true to consume
+  onSafariGesture?(e: SafariGestureEvent, ctx: GestureContext): boolean;
+
+  canRunWith?(other: GestureRecognizer): boolean;
+
+  // Another recognizer took over the gesture - drop in-progress state without side effects
+  cancel(ctx: GestureContext): void;
+
+  // A new arbitration round is starting
+  reset(): void;
+
+  // Stop any motion that continues after the fingers lift
+  stopInertia?(): void;
 }
@@ -1,22 +1,32 @@
 import { config } from './config';
 import { createMapProvider } from './map/MapProviderFactory';
 import { InteractionLayer } from './interaction/InteractionLayer';
-import { PassThroughHandler } from './interaction/handlers/PassThroughHandler';
+import { KeyboardHandler } from './interaction/KeyboardHandler';
+import { RotationModeController } from './interaction/RotationModeController';
+import { DragRecognizer } from './interaction/recognizers/DragRecognizer';
+import { WhirlMode, WhirlZoomRecognizer } from './interaction/recognizers/WhirlZoomRecognizer';
+import { MouseRotationRecognizer } from './interaction/recognizers/MouseRotationRecognizer';
+import { PinchRecognizer } from './interaction/recognizers/PinchRecognizer';
+import { QuickZoomRecognizer } from './interaction/recognizers/QuickZoomRecognizer';
+import { WheelRecognizer } from './interaction/recognizers/WheelRecognizer';
 import { MapControls } from './ui/MapControls';
 import { SearchBar } from './ui/SearchBar';
 import { Compass } from './ui/Compass';
+import { KeyboardHelp } from './ui/KeyboardHelp';
+import { TuningPanel } from './ui/TuningPanel';
+import { WhirlCalibration } from './ui/WhirlCalibration';
 import { TrailVisualizer } from './visualization/TrailVisualizer';
-import { EdgeIndicator } from './visualization/EdgeIndicator';
-import { GearIndicator } from './visualization/GearIndicator';
-import { DOUBLE_TAP_THRESHOLD_MS, LOCATION_BUTTON_ZOOM } from './control';
+import { LOCATION_BUTTON_ZOOM } from './control';
+import { settings } from './settings';
 
-// Prevent browser double-tap-to-zoom (shadow DOM elements bypass CSS touch-action)
+// Prevent browser double-tap-to-zoom (shadow DOM elements bypass CSS touch-action).
+// Double taps on the map are handled by QuickZoomRecognizer instead.
 let lastTouchEnd = 0;
 document.addEventListener('touchend', (e) => {
   const now = Date.now();
   const target = e.target as HTMLElement;
   const isInteractive = target.closest('button, a, input, [role="button"]');
-  if (now - lastTouchEnd <= DOUBLE_TAP_THRESHOLD_MS && !isInteractive) {
+  if (now - lastTouchEnd <= settings.get('DOUBLE_TAP_THRESHOLD_MS') && !isInteractive) {
     e.preventDefault();
   }
   lastTouchEnd = now;
@@ -28,10 +38,11 @@ async function main() {
   const controlsContainer = document.getElementById('map-controls-container')!;
   const searchContainer = document.getElementById('search-bar-container')!;
   const compassContainer = document.getElementById('compass-container')!;
+  const keyboardHelpContainer = document.getElementById('keyboard-help-container')!;
   const visualizationCanvas = document.getElementById('visualization-canvas') as HTMLCanvasElement;
 
   // Create and initialize the map provider
-  const mapProvider = createMapProvider('apple');
+  const mapProvider = createMapProvider(config.provider);
 
   await mapProvider.init(mapContainer, {
     center: config.defaults.center,
@@ -46,28 +57,46 @@ async function main() {
 
   // Set up visualization
   const trailVisualizer = new TrailVisualizer(visualizationCanvas);
-  trailVisualizer.setZoomGetter(() => mapProvider.getZoom());
+  trailVisualizer.setZoomLevel(mapProvider.getZoom());
+  mapProvider.on('camerachange', (e) => trailVisualizer.setZoomLevel(e.state.zoom));
 
-  // Set up the interaction layer with pass-through handler
-  const handler = new PassThroughHandler();
-  handler.setVisualizer(trailVisualizer);
-  handler.setAlt1Mode(true); // Alt1 mode enabled by default
+  // Set up the interaction layer with its gesture recognizers
+  const interactionLayer = new InteractionLayer(interactionElement, mapProvider);
 
-  // Set up edge indicator for drag-near-edge feedback
-  const edgeIndicator = new EdgeIndicator(interactionElement);
-  handler.setEdgeIndicator(edgeIndicator);
+  const dragRecognizer = new DragRecognizer();
+  dragRecognizer.setVisualizer(trailVisualizer);
 
-  // Set up gear indicator for showing anchor point near edges
-  const gearIndicator = new GearIndicator(interactionElement);
-  handler.setGearIndicator(gearIndicator);
+  const whirlRecognizer = new WhirlZoomRecognizer();
+  whirlRecognizer.setVisualizer(trailVisualizer);
+  whirlRecognizer.setMode('alt1'); // Alt1 mode enabled by default
 
-  const interactionLayer = new InteractionLayer(interactionElement, handler, mapProvider);
+  // Mouse users rotate with shift-drag or right-drag instead of the edge zones
+  const mouseRotationRecognizer = new MouseRotationRecognizer();
+
+  const pinchRecognizer = new PinchRecognizer();
+  const quickZoomRecognizer = new QuickZoomRecognizer();
+  const wheelRecognizer = new WheelRecognizer();
+
+  interactionLayer.addRecognizer(dragRecognizer);
+  interactionLayer.addRecognizer(whirlRecognizer);
+  interactionLayer.addRecognizer(mouseRotationRecognizer);
+  interactionLayer.addRecognizer(pinchRecognizer);
+  interactionLayer.addRecognizer(quickZoomRecognizer);
+  interactionLayer.addRecognizer(wheelRecognizer);
+
+  // Single-finger rotation (edge bars or gear) follows the ROTATION_MODE setting
+  const rotationModes = new RotationModeController(interactionLayer, interactionElement);
 
   // Set up UI
-  const mapControls = new MapControls(controlsContainer, mapProvider, handler);
+  const mapControls = new MapControls(controlsContainer, mapProvider, interactionLayer);
   const searchBar = new SearchBar(searchContainer, mapProvider);
   const compass = new Compass(compassContainer, mapProvider);
 
+  // Keyboard navigation with a shortcut help overlay
+  const keyboardHandler = new KeyboardHandler(interactionElement, mapProvider, interactionLayer);
+  const keyboardHelp = new KeyboardHelp(keyboardHelpContainer);
+  keyboardHandler.setHelp(keyboardHelp);
+
   // Native mode toggle
   const nativeCheckbox = document.getElementById('native-toggle-checkbox') as HTMLInputElement;
   nativeCheckbox.addEventListener('change', () => {
@@ -84,23 +113,49 @@ async function main() {
     trailVisualizer.setEnabled(visualize);
   });
 
-  // Alt1 toggle - use compound zoom value
-  const alt1Checkbox = document.getElementById('alt1-toggle-checkbox') as HTMLInputElement;
-  alt1Checkbox.addEventListener('change', () => {
-    handler.setAlt1Mode(alt1Checkbox.checked);
+  // Whirl mode - zoom by signed area (normal) or compound value (Alt1), or rotate
+  const whirlModeSelect = document.getElementById('whirl-mode-select') as HTMLSelectElement;
+  whirlModeSelect.addEventListener('change', () => {
+    whirlRecognizer.setMode(whirlModeSelect.value as WhirlMode);
   });
 
+  // Tune toggle - live editor for the runtime settings
+  const tuningPanel = new TuningPanel(document.getElementById('tuning-panel-container')!);
+  const tuneCheckbox = document.getElementById('tune-toggle-checkbox') as HTMLInputElement;
+  tuneCheckbox.addEventListener('change', () => {
+    tuningPanel.setVisible(tuneCheckbox.checked);
+  });
+
+  // Whirl calibration - fits the whirl thresholds and zoom rate, started from the tuning panel
+  const calibration = new WhirlCalibration(
+    document.getElementById('calibration-container')!,
+    trailVisualizer,
+    () => whirlRecognizer.getMode()
+  );
+  tuningPanel.setCalibrationHandler(() => calibration.start());
+
   // Expose for debugging in dev
   if (import.meta.env.DEV) {
     (window as any).__whirlZoomMap = {
       mapProvider,
+      settings,
       interactionLayer,
       mapControls,
       searchBar,
       compass,
+      keyboardHandler,
+      tuningPanel,
+      calibration,
       trailVisualizer,
-      edgeIndicator,
-      gearIndicator,
+      rotationModes,
+      recognizers: {
+        drag: dragRecognizer,
+        whirl: whirlRecognizer,
+        mouseRotation: mouseRotationRecognizer,
+        pinch: pinchRecognizer,
+        quickZoom: quickZoomRecognizer,
+        wheel: wheelRecognizer,
+      },
     };
   }
 }
@@ -0,0 +1,192 @@
+import {
+  CameraChangeSource,
+  CameraEventType,
+  CameraListener,
+  CameraState,
+} from './types';
+
+// Frame scheduling that also works outside the browser (e.g. headless tests under Node)
+const nextFrame = (callback: () => void): number =>
+  typeof requestAnimationFrame === 'function'
+    ? requestAnimationFrame(callback)
+    : setTimeout(callback, 16) as unknown as number;
+
+const cancelFrame = (id: number): void => {
+  if (typeof cancelAnimationFrame === 'function') {
+    cancelAnimationFrame(id);
+  } else {
+    clearTimeout(id);
+  }
+};
+
+/**
+ * CameraEventEmitter - Shared camera event plumbing for MapProvider implementations.
+ *
+ * Providers wrap each public camera mutation in change(); nested calls (e.g.
+ * zoomAtPoint calling panBy) collapse into a single 'camerachange'. Backends
+ * that animate on their own either report frames via notifyNative() or, if
+ * they have no per-frame event, are sampled with track() until stopTracking().
+ *
+ * 'regionchangestart' fires before the first change of a sequence and
+ * 'regionchangeend' once a frame passes with no change and no gesture in progress.
+ */
+export class CameraEventEmitter {
+  private getState: () => CameraState;
+  private listeners = new Map<CameraEventType, Set<CameraListener>>();
+  private changeDepth = 0;
+  private gestureActive = false;
+  private regionChanging = false;
+  private regionSource: CameraChangeSource = 'programmatic';
+  private changedSinceCheck = false;
+  private endCheckId: number | null = null;
+  private trackingId: number | null = null;
+
+  constructor(getState: () => CameraState) {
+    this.getState = getState;
+  }
+
+  on(type: CameraEventType, listener: CameraListener): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  off(type: CameraEventType, listener: CameraListener): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Mark the start of a user gesture. Until endGesture(), non-animated
+   * changes are reported as 'gesture' and the region stays "changing".
+   */
+  beginGesture(): void {
+    this.gestureActive = true;
+  }
+
+  endGesture(): void {
+    this.gestureActive = false;
+    if (this.regionChanging) {
+      this.scheduleEndCheck();
+    }
+  }
+
+  /**
+   * Run a synchronous camera mutation and emit one change when the outermost call returns.
+   */
+  change<T>(source: CameraChangeSource, apply: () => T): T {
+    this.changeDepth++;
+    try {
+      return apply();
+    } finally {
+      this.changeDepth--;
+      if (this.changeDepth === 0) {
+        this.emitChange(source);
+      }
+    }
+  }
+
+  /**
+   * Report a change observed through the backend's own events.
+   * Ignored inside change(), which reports the change itself.
+   */
+  notifyNative(source: CameraChangeSource): void {
+    if (this.changeDepth > 0) return;
+    this.emitChange(source);
+  }
+
+  /**
+   * Sample the camera every frame while the backend animates on its own.
+   * Stops on stopTracking() or after maxDurationMs.
+   */
+  track(source: CameraChangeSource, maxDurationMs: number = Infinity): void {
+    this.stopTracking();
+    const startTime = performance.now();
+
+    const sample = () => {
+      this.emitChange(source);
+      if (performance.now() - startTime < maxDurationMs) {
+        this.trackingId = nextFrame(sample);
+      } else {
+        this.trackingId = null;
+      }
+    };
+
+    this.trackingId = nextFrame(sample);
+  }
+
+  stopTracking(): void {
+    if (this.trackingId !== null) {
+      cancelFrame(this.trackingId);
+      this.trackingId = null;
+      // Report the settled position
+      this.emitChange(this.regionSource);
+    }
+  }
+
+  isTracking(): boolean {
+    return this.trackingId !== null;
+  }
+
+  isChanging(): boolean {
+    return this.changeDepth > 0;
+  }
+
+  destroy(): void {
+    if (this.trackingId !== null) {
+      cancelFrame(this.trackingId);
+      this.trackingId = null;
+    }
+    if (this.endCheckId !== null) {
+      cancelFrame(this.endCheckId);
+      this.endCheckId = null;
+    }
+    this.listeners.clear();
+  }
+
+  private emitChange(source: CameraChangeSource): void {
+    const effectiveSource = this.gestureActive && source === 'programmatic' ? 'gesture' : source;
+
+    if (!this.regionChanging) {
+      this.regionChanging = true;
+      this.regionSource = effectiveSource;
+      this.emit('regionchangestart', effectiveSource);
+    }
+
+    this.emit('camerachange', effectiveSource);
+    this.changedSinceCheck = true;
+    this.scheduleEndCheck();
+  }
+
+  private scheduleEndCheck(): void {
+    if (this.endCheckId !== null) return;
+
+    const check = () => {
+      this.endCheckId = null;
+      if (this.gestureActive || this.trackingId !== null) return;
+      if (this.changedSinceCheck) {
+        // Something moved during the last frame - wait for a quiet one
+        this.changedSinceCheck = false;
+        this.endCheckId = nextFrame(check);
+        return;
+      }
+      this.regionChanging = false;
+      this.emit('regionchangeend', this.regionSource);
+    };
+
+    this.endCheckId = nextFrame(check);
+  }
+
+  private emit(type: CameraEventType, source: CameraChangeSource): void {
+    const set = this.listeners.get(type);
+    if (!set || set.size === 0) return;
+
+    const state = this.getState();
+    for (const listener of [...set]) {
+      listener({ type, source, state });
+    }
+  }
+}
@@ -1,10 +1,19 @@
 import { MapProvider, MapProviderType } from './types';
 import { AppleMapProvider } from './providers/AppleMapProvider';
+import { GoogleMapProvider } from './providers/GoogleMapProvider';
+import { TileMapProvider } from './providers/TileMapProvider';
+import { HeadlessMapProvider } from './providers/HeadlessMapProvider';
 
 export function createMapProvider(type: MapProviderType): MapProvider {
   switch (type) {
     case 'apple':
       return new AppleMapProvider();
+    case 'google':
+      return new GoogleMapProvider();
+    case 'tiles':
+      return new TileMapProvider();
+    case 'headless':
+      return new HeadlessMapProvider();
     default:
       throw new Error(`Unknown map provider type: ${type}`);
   }
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  boundsCenter,
+  boundsContains,
+  boundsFromViewportCorners,
+  extendBounds,
+  intersectBounds,
+  longitudeSpan,
+  unionBounds,
+  viewportLongitudeSpan,
+} from './bounds';
+import { MapBounds } from './types';
+
+const box = (west: number, east: number, south = -10, north = 10): MapBounds => ({ north, south, east, west });
+
+// 20° wide, straddling the antimeridian
+const WRAPPED = box(170, -170);
+
+describe('bounds', () => {
+  it('measures and centers boxes across the antimeridian', () => {
+    expect(longitudeSpan(WRAPPED)).toBe(20);
+    expect(longitudeSpan(box(-180, 180))).toBe(360);
+    expect(boundsCenter(WRAPPED).lng).toBeCloseTo(-180, 9);
+    expect(boundsCenter(box(160, -170)).lng).toBeCloseTo(175, 9);
+  });
+
+  it('contains points on both sides of the antimeridian', () => {
+    for (const lng of [170, 179, 180, -180, -179, -170]) {
+      expect(boundsContains(WRAPPED, { lat: 0, lng }), String(lng)).toBe(true);
+    }
+    for (const lng of [169, 0, -169]) {
+      expect(boundsContains(WRAPPED, { lat: 0, lng }), String(lng)).toBe(false);
+    }
+    expect(boundsContains(WRAPPED, { lat: 11, lng: 180 })).toBe(false);
+  });
+
+  it('intersects wrapped and unwrapped boxes', () => {
+    expect(intersectBounds(WRAPPED, box(160, 175))).toEqual(box(170, 175));
+    expect(intersectBounds(WRAPPED, box(-175, -160))).toEqual(box(-175, -170));
+    expect(intersectBounds(box(-175, -160), WRAPPED)).toEqual(box(-175, -170));
+    expect(intersectBounds(WRAPPED, box(175, -160))).toEqual(box(175, -170));
+    expect(intersectBounds(WRAPPED, box(-10, 10))).toBeNull();
+    expect(intersectBounds(WRAPPED, box(175, 178, 20, 30))).toBeNull();
+  });
+
+  it('keeps the larger overlap when boxes meet on both sides of the world', () => {
+    // 340° wide box against one overlapping its west end by 10° and its east end by 5°
+    expect(intersectBounds(box(-170, 170), box(165, -160))).toEqual(box(-170, -160));
+  });
+
+  it('unions boxes the short way round', () => {
+    expect(unionBounds(box(170, 175), box(-175, -170))).toEqual(box(170, -170));
+    expect(unionBounds(box(-175, -170), box(170, 175))).toEqual(box(170, -170));
+    expect(unionBounds(box(-10, 0), box(10, 20, -30, 5))).toEqual(box(-10, 20, -30, 10));
+    expect(unionBounds(WRAPPED, box(-175, 175))).toEqual(box(-180, 180));
+    expect(unionBounds(box(-100, 100), box(90, -90))).toEqual(box(-180, 180));
+  });
+
+  it('extends a box across the antimeridian when that side is closer', () => {
+    expect(extendBounds(box(170, 175), { lat: 20, lng: -178 })).toEqual(box(170, -178, -10, 20));
+    expect(extendBounds(box(170, 175), { lat: 0, lng: 150 })).toEqual(box(150, 175));
+  });
+
+  it('spans the rotated viewport extent in longitude', () => {
+    const degreesPerPixel = 360 / (256 * 2 ** 6);
+    expect(viewportLongitudeSpan(400, 800, 6, 0)).toBeCloseTo(400 * degreesPerPixel, 9);
+    expect(viewportLongitudeSpan(400, 800, 6, 90)).toBeCloseTo(800 * degreesPerPixel, 9);
+    expect(viewportLongitudeSpan(400, 800, 6, 180)).toBeCloseTo(400 * degreesPerPixel, 9);
+    expect(viewportLongitudeSpan(400, 800, 6, 45)).toBeCloseTo(1200 * Math.SQRT1_2 * degreesPerPixel, 9);
+  });
+
+  it('bounds a rotated viewport straddling the antimeridian', () => {
+    const span = viewportLongitudeSpan(400, 800, 6, 90);
+    const corners = [
+      { lat: 61.2, lng: 172.3 },
+      { lat: 61.2, lng: -170.3 },
+      { lat: 58.6, lng: -170.3 },
+      { lat: 58.6, lng: 172.3 },
+    ];
+    const bounds = boundsFromViewportCorners(corners, { lat: 60, lng: -179 }, span);
+    expect(bounds.north).toBe(61.2);
+    expect(bounds.south).toBe(58.6);
+    expect(bounds.west).toBeCloseTo(-179 - span / 2 + 360, 9);
+    expect(bounds.east).toBeCloseTo(-179 + span / 2, 9);
+    expect(longitudeSpan(bounds)).toBeCloseTo(span, 9);
+  });
+
+  it('covers every longitude when the viewport is wider than the world', () => {
+    const corners = [{ lat: 80, lng: 0 }, { lat: -80, lng: 0 }];
+    expect(boundsFromViewportCorners(corners, { lat: 0, lng: 30 }, 400)).toEqual(box(-180, 180, -80, 80));
+  });
+});
@@ -0,0 +1,158 @@
+import { LatLng, MapBounds } from './types';
+import { worldSize, wrapLongitude } from './mercator';
+
+/**
+ * bounds.ts - Antimeridian-aware helpers for MapBounds
+ *
+ * Longitudes are always kept in -180..180. A box that crosses the
+ * antimeridian has west > east (e.g. west 170, east -170 is 20° wide).
+ * A box covering every longitude is stored as west -180, east 180.
+ */
+
+const FULL_LONGITUDE_SPAN = 360;
+
+/**
+ * Width of the box in degrees of longitude (0..360).
+ */
+export function longitudeSpan(bounds: MapBounds): number {
+  if (bounds.east - bounds.west >= FULL_LONGITUDE_SPAN) return FULL_LONGITUDE_SPAN;
+  const span = bounds.east - bounds.west;
+  return span < 0 ? span + FULL_LONGITUDE_SPAN : span;
+}
+
+export function crossesAntimeridian(bounds: MapBounds): boolean {
+  return bounds.west > bounds.east;
+}
+
+/**
+ * Midpoint of the box, taking the antimeridian into account.
+ */
+export function boundsCenter(bounds: MapBounds): LatLng {
+  return {
+    lat: (bounds.north + bounds.south) / 2,
+    lng: wrapLongitude(bounds.west + longitudeSpan(bounds) / 2),
+  };
+}
+
+export function boundsContains(bounds: MapBounds, point: LatLng): boolean {
+  if (point.lat < bounds.south || point.lat > bounds.north) return false;
+  const offset = wrapLongitude(point.lng - bounds.west);
+  const fromWest = offset < 0 ? offset + FULL_LONGITUDE_SPAN : offset;
+  return fromWest <= longitudeSpan(bounds);
+}
+
+/**
+ * Degrees from `from` eastward to `to`, in 0..360.
+ */
+function eastwardDistance(from: number, to: number): number {
+  const d = (to - from) % FULL_LONGITUDE_SPAN;
+  return d < 0 ? d + FULL_LONGITUDE_SPAN : d;
+}
+
+/**
+ * Overlap of two boxes, or null if they don't intersect. If the boxes
+ * overlap on both sides of the world, the larger overlap is returned.
+ */
+export function intersectBounds(a: MapBounds, b: MapBounds): MapBounds | null {
+  const north = Math.min(a.north, b.north);
+  const south = Math.max(a.south, b.south);
+  if (south > north) return null;
+
+  const aSpan = longitudeSpan(a);
+  const bSpan = longitudeSpan(b);
+  if (aSpan >= FULL_LONGITUDE_SPAN) return { north, south, west: b.west, east: b.east };
+  if (bSpan >= FULL_LONGITUDE_SPAN) return { north, south, west: a.west, east: a.east };
+
+  // Measure everything eastward from a.west; b may also wrap in from the previous turn
+  const bStart = eastwardDistance(a.west, b.west);
+  let best: { start: number; end: number } | null = null;
+  for (const start of [bStart, bStart - FULL_LONGITUDE_SPAN]) {
+    const overlapStart = Math.max(0, start);
+    const overlapEnd = Math.min(aSpan, start + bSpan);
+    if (overlapEnd >= overlapStart && (!best || overlapEnd - overlapStart > best.end - best.start)) {
+      best = { start: overlapStart, end: overlapEnd };
+    }
+  }
+  if (!best) return null;
+
+  return {
+    north,
+    south,
+    west: wrapLongitude(a.west + best.start),
+    east: wrapLongitude(a.west + best.end),
+  };
+}
+
+/**
+ * Smallest box containing both boxes, going around the world whichever way is shorter.
+ */
+export function unionBounds(a: MapBounds, b: MapBounds): MapBounds {
+  const north = Math.max(a.north, b.north);
+  const south = Math.min(a.south, b.south);
+
+  const aSpan = longitudeSpan(a);
+  const bSpan = longitudeSpan(b);
+  const bStart = eastwardDistance(a.west, b.west);
+
+  // The narrowest covering box starts at one of the two west edges
+  const fromA = Math.max(aSpan, bStart + bSpan);
+  const fromB = Math.max(bSpan, FULL_LONGITUDE_SPAN - bStart + aSpan);
+  const width = Math.min(fromA, fromB);
+
+  if (width >= FULL_LONGITUDE_SPAN) {
+    return { north, south, west: -180, east: 180 };
+  }
+  const west = fromA <= fromB ? a.west : b.west;
+  return { north, south, west, east: wrapLongitude(west + width) };
+}
+
+/**
+ * Grow the box just enough to include point, on whichever side is closer.
+ */
+export function extendBounds(bounds: MapBounds, point: LatLng): MapBounds {
+  return unionBounds(bounds, {
+    north: point.lat,
+    south: point.lat,
+    east: wrapLongitude(point.lng),
+    west: wrapLongitude(point.lng),
+  });
+}
+
+/**
+ * Degrees of longitude covered by a width x height viewport rotated by
+ * rotationDegrees at the given tile zoom - the horizontal extent of the
+ * rotated rectangle in world pixels. Not capped: a viewport wider than the
+ * world gives more than 360.
+ */
+export function viewportLongitudeSpan(width: number, height: number, zoom: number, rotationDegrees: number): number {
+  const radians = rotationDegrees * (Math.PI / 180);
+  const extent = Math.abs(width * Math.cos(radians)) + Math.abs(height * Math.sin(radians));
+  return extent / worldSize(zoom) * FULL_LONGITUDE_SPAN;
+}
+
+/**
+ * Bounding box of a (possibly rotated) viewport from its four corner
+ * coordinates and its longitude span (see viewportLongitudeSpan).
+ *
+ * A rotated map shows more than its axis-aligned span, so the box has to
+ * cover all four corners. Viewport edges are straight lines in Web Mercator,
+ * and latitude is monotonic in Mercator y, so the corners alone give the
+ * latitude extremes. Longitude is linear in Mercator x and the viewport is
+ * centered on the map center, so west/east are half the span either side of
+ * it - measured before wrapping, so a viewport wider than the world covers
+ * every longitude and one straddling the antimeridian produces west > east.
+ */
+export function boundsFromViewportCorners(corners: LatLng[], center: LatLng, lngSpan: number): MapBounds {
+  const north = Math.max(...corners.map((c) => c.lat));
+  const south = Math.min(...corners.map((c) => c.lat));
+  if (lngSpan >= FULL_LONGITUDE_SPAN) {
+    return { north, south, west: -180, east: 180 };
+  }
+
+  return {
+    north,
+    south,
+    west: wrapLongitude(center.lng - lngSpan / 2),
+    east: wrapLongitude(center.lng + lngSpan / 2),
+  };
+}
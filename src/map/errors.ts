@@ -0,0 +1,22 @@
+import { MapProviderType } from './types';
+
+/**
+ * Optional MapProvider features that not every backend can offer.
+ */
+export type MapCapability = 'directions' | 'poiSearch' | 'poiFilter';
+
+/**
+ * Thrown (or used to reject) when a provider is asked for a capability
+ * its backend has no equivalent for, e.g. directions on a plain tile map.
+ */
+export class UnsupportedCapabilityError extends Error {
+  readonly capability: MapCapability;
+  readonly provider: MapProviderType;
+
+  constructor(capability: MapCapability, provider: MapProviderType) {
+    super(`The '${provider}' map provider does not support ${capability}`);
+    this.name = 'UnsupportedCapabilityError';
+    this.capability = capability;
+    this.provider = provider;
+  }
+}
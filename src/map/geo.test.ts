@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alongTrackDistance,
+  closestFractionOnSegment,
+  closestPointOnPolyline,
+  crossTrackDistance,
+  EARTH_RADIUS_METERS,
+  haversineDistance,
+  initialBearing,
+  simplifyPolyline,
+} from './geo';
+
+const DEGREE_METERS = EARTH_RADIUS_METERS * Math.PI / 180; // One degree of a great circle
+const DEG_TO_RAD = Math.PI / 180;
+
+describe('geo', () => {
+  it('measures great-circle distances', () => {
+    expect(haversineDistance({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(DEGREE_METERS, 6);
+    expect(haversineDistance({ lat: 0, lng: 0 }, { lat: 0, lng: 90 })).toBeCloseTo(EARTH_RADIUS_METERS * Math.PI / 2, 6);
+    expect(haversineDistance({ lat: 0, lng: 0 }, { lat: 0, lng: 180 })).toBeCloseTo(EARTH_RADIUS_METERS * Math.PI, 6);
+    expect(haversineDistance({ lat: 0, lng: 179.5 }, { lat: 0, lng: -179.5 })).toBeCloseTo(DEGREE_METERS, 6);
+    // A degree of longitude shrinks with the cosine of the latitude
+    expect(haversineDistance({ lat: 60, lng: 0 }, { lat: 60, lng: 0.001 })).toBeCloseTo(DEGREE_METERS * 0.001 * 0.5, 3);
+  });
+
+  it('gives bearings clockwise from north', () => {
+    const origin = { lat: 0, lng: 0 };
+    expect(initialBearing(origin, { lat: 1, lng: 0 })).toBeCloseTo(0, 9);
+    expect(initialBearing(origin, { lat: 0, lng: 1 })).toBeCloseTo(90, 9);
+    expect(initialBearing(origin, { lat: -1, lng: 0 })).toBeCloseTo(180, 9);
+    expect(initialBearing(origin, { lat: 0, lng: -1 })).toBeCloseTo(270, 9);
+    expect(initialBearing(origin, { lat: 45, lng: 90 })).toBeCloseTo(45, 9);
+    // The great circle between two points on a parallel leaves it heading poleward: tan θ = 1 / sin(lat)
+    const expected = Math.atan2(1, Math.sin(50 * DEG_TO_RAD)) / DEG_TO_RAD;
+    expect(initialBearing({ lat: 50, lng: 0 }, { lat: 50, lng: 90 })).toBeCloseTo(expected, 9);
+  });
+
+  it('measures cross-track and along-track distances', () => {
+    const start = { lat: 0, lng: -10 };
+    const end = { lat: 0, lng: 10 };
+    // North of an eastbound path is to its left
+    expect(crossTrackDistance({ lat: 1, lng: 5 }, start, end)).toBeCloseTo(-DEGREE_METERS, 3);
+    expect(crossTrackDistance({ lat: -1, lng: 5 }, start, end)).toBeCloseTo(DEGREE_METERS, 3);
+    // Meridians cross the equator at right angles, so the foot is straight south
+    expect(alongTrackDistance({ lat: 1, lng: 5 }, start, end)).toBeCloseTo(15 * DEGREE_METERS, 3);
+    expect(alongTrackDistance({ lat: 1, lng: -12 }, start, end)).toBeCloseTo(-2 * DEGREE_METERS, 3);
+  });
+
+  it('finds the foot point in meters, not degrees, at high latitude', () => {
+    const start = { lat: 70, lng: 0 };
+    const end = { lat: 70.01, lng: 0.03 };
+    const cosLat = Math.cos(70.005 * DEG_TO_RAD);
+
+    // Step away from the segment's midpoint at right angles, in meters
+    const dx = (end.lng - start.lng) * cosLat;
+    const dy = end.lat - start.lat;
+    const point = { lat: 70.005 + dx / 2, lng: 0.015 - dy / 2 / cosLat };
+
+    // Projecting in raw degrees puts the foot about a tenth of the way along
+    const degreeFraction =
+      ((point.lng - start.lng) * (end.lng - start.lng) + (point.lat - start.lat) * (end.lat - start.lat)) /
+      ((end.lng - start.lng) ** 2 + (end.lat - start.lat) ** 2);
+    expect(degreeFraction).toBeLessThan(0.2);
+
+    expect(closestFractionOnSegment(point, start, end)).toBeCloseTo(0.5, 2);
+
+    const closest = closestPointOnPolyline(point, [start, end])!;
+    expect(closest.index).toBe(0);
+    expect(closest.distance).toBeCloseTo(Math.abs(crossTrackDistance(point, start, end)), -1);
+  });
+
+  it('simplifies by distance in meters at any latitude', () => {
+    // A 30 m bump in the middle of an east-west line at 70°N
+    const bump = 30 / DEGREE_METERS;
+    const line = [
+      { lat: 70, lng: 0 },
+      { lat: 70 + bump, lng: 0.01 },
+      { lat: 70, lng: 0.02 },
+    ];
+    expect(simplifyPolyline(line, 20)).toHaveLength(3);
+    expect(simplifyPolyline(line, 40)).toEqual([line[0], line[2]]);
+    expect(simplifyPolyline(line.slice(0, 2), 1000)).toEqual(line.slice(0, 2));
+  });
+});
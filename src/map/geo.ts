@@ -0,0 +1,207 @@
+import { LatLng } from './types';
+import { wrapLongitude } from './mercator';
+
+/**
+ * geo.ts - Geodesy on a spherical Earth, shared by providers and UI
+ *
+ * Distances are in meters and bearings in degrees clockwise from north
+ * (0..360). Great-circle formulas are used for distances and bearings;
+ * nearest-point searches work in a local tangent-plane projection around the
+ * query point, which is accurate at any latitude for route-sized segments.
+ */
+
+export const EARTH_RADIUS_METERS = 6371000;   // Mean Earth radius
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+export interface PolylineProjection {
+  index: number;      // Segment index: the point lies between polyline[index] and polyline[index + 1]
+  fraction: number;   // Position along that segment (0 = start, 1 = end)
+  point: LatLng;      // Closest point on the polyline
+  distance: number;   // Meters from the query point to `point`
+}
+
+/**
+ * Great-circle distance between two points.
+ */
+export function haversineDistance(from: LatLng, to: LatLng): number {
+  const lat1 = from.lat * DEG_TO_RAD;
+  const lat2 = to.lat * DEG_TO_RAD;
+  const deltaLat = (to.lat - from.lat) * DEG_TO_RAD;
+  const deltaLng = (to.lng - from.lng) * DEG_TO_RAD;
+
+  const a = Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
+            Math.cos(lat1) * Math.cos(lat2) *
+            Math.sin(deltaLng / 2) * Math.sin(deltaLng / 2);
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Bearing at `from` of the great circle to `to`.
+ */
+export function initialBearing(from: LatLng, to: LatLng): number {
+  const lat1 = from.lat * DEG_TO_RAD;
+  const lat2 = to.lat * DEG_TO_RAD;
+  const deltaLng = (to.lng - from.lng) * DEG_TO_RAD;
+
+  const y = Math.sin(deltaLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLng);
+  return (Math.atan2(y, x) * RAD_TO_DEG + 360) % 360;
+}
+
+/**
+ * Point reached by travelling `distance` meters from `from` along a great
+ * circle starting at `bearing`.
+ */
+export function destinationPoint(from: LatLng, distance: number, bearing: number): LatLng {
+  const angular = distance / EARTH_RADIUS_METERS;
+  const theta = bearing * DEG_TO_RAD;
+  const lat1 = from.lat * DEG_TO_RAD;
+  const lng1 = from.lng * DEG_TO_RAD;
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return { lat: lat2 * RAD_TO_DEG, lng: wrapLongitude(lng2 * RAD_TO_DEG) };
+}
+
+/**
+ * Signed distance from `point` to the great circle through start and end.
+ * Positive when the point is to the right of the path, negative to the left.
+ */
+export function crossTrackDistance(point: LatLng, start: LatLng, end: LatLng): number {
+  const angular13 = haversineDistance(start, point) / EARTH_RADIUS_METERS;
+  const theta13 = initialBearing(start, point) * DEG_TO_RAD;
+  const theta12 = initialBearing(start, end) * DEG_TO_RAD;
+  return Math.asin(Math.sin(angular13) * Math.sin(theta13 - theta12)) * EARTH_RADIUS_METERS;
+}
+
+/**
+ * Distance from start, along the great circle towards end, to the foot of
+ * the perpendicular from `point`. Negative if the foot lies behind start.
+ */
+export function alongTrackDistance(point: LatLng, start: LatLng, end: LatLng): number {
+  const angular13 = haversineDistance(start, point) / EARTH_RADIUS_METERS;
+  const theta13 = initialBearing(start, point) * DEG_TO_RAD;
+  const theta12 = initialBearing(start, end) * DEG_TO_RAD;
+  const angularXt = Math.asin(Math.sin(angular13) * Math.sin(theta13 - theta12));
+  const along = Math.acos(
+    Math.max(-1, Math.min(1, Math.cos(angular13) / Math.cos(angularXt)))
+  ) * EARTH_RADIUS_METERS;
+  return Math.cos(theta13 - theta12) < 0 ? -along : along;
+}
+
+/**
+ * Total length of a polyline.
+ */
+export function polylineLength(points: LatLng[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += haversineDistance(points[i - 1], points[i]);
+  }
+  return length;
+}
+
+/**
+ * Offset of `point` from `origin` in meters on the tangent plane at origin
+ * (x east, y north). Takes the short way around the antimeridian.
+ */
+function toLocal(origin: LatLng, point: LatLng): { x: number; y: number } {
+  const cosLat = Math.cos(origin.lat * DEG_TO_RAD);
+  return {
+    x: wrapLongitude(point.lng - origin.lng) * DEG_TO_RAD * cosLat * EARTH_RADIUS_METERS,
+    y: (point.lat - origin.lat) * DEG_TO_RAD * EARTH_RADIUS_METERS,
+  };
+}
+
+/**
+ * Closest point to `point` on the segment start-end, as a fraction of the segment.
+ * Computed in a local projection around `point`, so meters are the same in
+ * every direction regardless of latitude.
+ */
+export function closestFractionOnSegment(point: LatLng, start: LatLng, end: LatLng): number {
+  const a = toLocal(point, start);
+  const b = toLocal(point, end);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+
+  if (lengthSquared === 0) {
+    // Segment is a point
+    return 0;
+  }
+
+  // The query point is the origin, so project (-a) onto the segment direction
+  return Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+}
+
+/**
+ * Point at `fraction` along the segment start-end (linear in lat/lng, short
+ * way around the antimeridian). Accurate for route-sized segments.
+ */
+export function interpolate(start: LatLng, end: LatLng, fraction: number): LatLng {
+  return {
+    lat: start.lat + (end.lat - start.lat) * fraction,
+    lng: wrapLongitude(start.lng + wrapLongitude(end.lng - start.lng) * fraction),
+  };
+}
+
+/**
+ * Closest point on a polyline to `point`, or null for fewer than two points.
+ */
+export function closestPointOnPolyline(point: LatLng, polyline: LatLng[]): PolylineProjection | null {
+  if (polyline.length < 2) return null;
+
+  let best: PolylineProjection | null = null;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const fraction = closestFractionOnSegment(point, polyline[i], polyline[i + 1]);
+    const projected = interpolate(polyline[i], polyline[i + 1], fraction);
+    const distance = haversineDistance(point, projected);
+
+    if (!best || distance < best.distance) {
+      best = { index: i, fraction, point: projected, distance };
+    }
+  }
+  return best;
+}
+
+/**
+ * Douglas-Peucker simplification: drop points that lie within
+ * `toleranceMeters` of the simplified line. Endpoints are always kept.
+ */
+export function simplifyPolyline(points: LatLng[], toleranceMeters: number): LatLng[] {
+  if (points.length <= 2) return [...points];
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to avoid deep recursion on long routes
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const fraction = closestFractionOnSegment(points[i], points[first], points[last]);
+      const distance = haversineDistance(points[i], interpolate(points[first], points[last], fraction));
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > toleranceMeters) {
+      keep[maxIndex] = true;
+      stack.push([first, maxIndex], [maxIndex, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
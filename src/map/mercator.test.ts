@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { project, unproject, screenOffsetToWorld, worldOffsetToScreen, wrapLongitude, worldSize } from './mercator';
+
+describe('mercator', () => {
+  it('round-trips coordinates through project/unproject', () => {
+    for (const zoom of [0, 3.5, 12, 20]) {
+      for (const [lat, lng] of [[0, 0], [37.7749, -122.4194], [-33.8688, 151.2093], [84.9, 179.9], [-84.9, -179.9]]) {
+        const world = project(lat, lng, zoom);
+        const coord = unproject(world.x, world.y, zoom);
+        expect(coord.lat).toBeCloseTo(lat, 9);
+        expect(coord.lng).toBeCloseTo(lng, 9);
+      }
+    }
+  });
+
+  it('maps the world onto a square of worldSize pixels', () => {
+    const zoom = 4;
+    const topLeft = project(85.05112878, -180, zoom);
+    const bottomRight = project(-85.05112878, 180, zoom);
+    expect(topLeft.x).toBeCloseTo(0, 6);
+    expect(topLeft.y).toBeCloseTo(0, 3);
+    expect(bottomRight.x).toBeCloseTo(worldSize(zoom), 6);
+    expect(bottomRight.y).toBeCloseTo(worldSize(zoom), 3);
+  });
+
+  it('inverts screen/world offsets under rotation', () => {
+    for (const rotation of [0, 30, 90, 217]) {
+      const world = screenOffsetToWorld(12, -7, rotation);
+      const screen = worldOffsetToScreen(world.x, world.y, rotation);
+      expect(screen.x).toBeCloseTo(12, 9);
+      expect(screen.y).toBeCloseTo(-7, 9);
+    }
+  });
+
+  it('wraps longitudes into -180..180', () => {
+    expect(wrapLongitude(190)).toBeCloseTo(-170, 9);
+    expect(wrapLongitude(-190)).toBeCloseTo(170, 9);
+    expect(wrapLongitude(540)).toBeCloseTo(-180, 9);
+    expect(wrapLongitude(45)).toBeCloseTo(45, 9);
+  });
+});
@@ -0,0 +1,108 @@
+import { LatLng } from './types';
+
+/**
+ * mercator.ts - Web Mercator projection helpers shared by map providers
+ *
+ * World coordinates follow the web-map tile convention: at zoom z the whole
+ * world is a square of TILE_SIZE * 2^z pixels, x grows eastward from the
+ * antimeridian and y grows southward from the top of the projection.
+ *
+ * Screen rotation follows MapKit: a rotation of r degrees turns the map
+ * clockwise, so north points r degrees clockwise from the top of the screen.
+ */
+
+export const TILE_SIZE = 256;                      // World size in pixels at zoom 0
+export const MERCATOR_MAX_LATITUDE = 85.05112878;  // atan(sinh(π)) - the square projection limit
+
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+export function worldSize(zoom: number): number {
+  return TILE_SIZE * Math.pow(2, zoom);
+}
+
+/**
+ * Project a coordinate to world pixels at the given zoom.
+ */
+export function project(lat: number, lng: number, zoom: number): WorldPoint {
+  const size = worldSize(zoom);
+  const clampedLat = Math.max(-MERCATOR_MAX_LATITUDE, Math.min(MERCATOR_MAX_LATITUDE, lat));
+  const sin = Math.sin(clampedLat * Math.PI / 180);
+  return {
+    x: (lng + 180) / 360 * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+/**
+ * Inverse of project(). Longitude is not wrapped.
+ */
+export function unproject(x: number, y: number, zoom: number): LatLng {
+  const size = worldSize(zoom);
+  const n = Math.PI - 2 * Math.PI * y / size;
+  return {
+    lat: Math.atan(Math.sinh(n)) * 180 / Math.PI,
+    lng: x / size * 360 - 180,
+  };
+}
+
+/**
+ * Convert a screen-space offset (pixels, y down) into a world-space offset
+ * for a map rotated by rotationDegrees.
+ */
+export function screenOffsetToWorld(dx: number, dy: number, rotationDegrees: number): WorldPoint {
+  const radians = rotationDegrees * (Math.PI / 180);
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    x: dx * cos + dy * sin,
+    y: -dx * sin + dy * cos,
+  };
+}
+
+/**
+ * Inverse of screenOffsetToWorld().
+ */
+export function worldOffsetToScreen(dx: number, dy: number, rotationDegrees: number): WorldPoint {
+  const radians = rotationDegrees * (Math.PI / 180);
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    x: dx * cos - dy * sin,
+    y: dx * sin + dy * cos,
+  };
+}
+
+/**
+ * Normalize a longitude to the -180..180 range.
+ */
+export function wrapLongitude(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Move a map center by a screen-space offset, exactly in world pixels.
+ *
+ * Sub-pixel offsets are kept as-is. The result's longitude is wrapped to
+ * -180..180, so a pan across the antimeridian continues seamlessly. Latitude
+ * is clamped to ±maxLatitude: past the limit the vertical part of the pan is
+ * dropped while the horizontal part still applies.
+ */
+export function panCenter(
+  center: LatLng,
+  dx: number,
+  dy: number,
+  zoom: number,
+  rotationDegrees: number,
+  maxLatitude: number
+): LatLng {
+  const centerWorld = project(center.lat, center.lng, zoom);
+  const offset = screenOffsetToWorld(dx, dy, rotationDegrees);
+  const moved = unproject(centerWorld.x + offset.x, centerWorld.y + offset.y, zoom);
+  return {
+    lat: Math.max(-maxLatitude, Math.min(maxLatitude, moved.lat)),
+    lng: wrapLongitude(moved.lng),
+  };
+}
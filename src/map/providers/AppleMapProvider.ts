@@ -1,4 +1,20 @@
-import { MapProvider, MapOptions, LatLng, MapBounds, MapMarker, RouteInfo } from '../types';
+import {
+  MapProvider,
+  MapOptions,
+  LatLng,
+  MapBounds,
+  MapMarker,
+  RouteInfo,
+  ScreenPoint,
+  CameraOptions,
+  CameraState,
+  CameraEventType,
+  CameraListener,
+} from '../types';
+import { CameraEventEmitter } from '../CameraEventEmitter';
+import { boundsFromViewportCorners, viewportLongitudeSpan } from '../bounds';
+import { closestPointOnPolyline } from '../geo';
+import { TILE_SIZE, worldSize, project, unproject, wrapLongitude, panCenter } from '../mercator';
 import { config } from '../../config';
 import {
   ZOOM_MIN_LEVEL,
@@ -23,13 +39,15 @@ import {
 
 // Non-tunable constants (geometric/physical constants and epsilons)
 const MAPKIT_CHECK_INTERVAL_MS = 50;     // Polling interval for MapKit availability
-const MAPKIT_ZOOM_SPAN_BASE = 360;       // Full rotation in degrees
-const MAPKIT_LAT_CLAMP_MIN = -85;        // Web Mercator latitude minimum
-const MAPKIT_LAT_CLAMP_MAX = 85;         // Web Mercator latitude maximum
-const EARTH_RADIUS_METERS = 6371000;     // Earth's radius for haversine
+const MAPKIT_SCRIPT_ID = 'mapkit-js';
+const MAPKIT_SCRIPT_URL = 'https://cdn.apple-mapkit.com/mk/5.x.x/mapkit.js';
+const MAPKIT_ZOOM_SPAN_BASE = 360;       // Degrees of longitude across the world
+const MAPKIT_LAT_CLAMP_MAX = 85;         // Web Mercator latitude limit (±)
 const ZOOM_CLAMPING_EPSILON = 0.001;     // Epsilon for detecting zoom clamping
 const ZOOM_LIMIT_EPSILON = 0.0001;       // Epsilon to stay away from zoom limits
+const ROTATION_EPSILON = 0.001;          // Rotation difference (degrees) treated as unchanged
 const ANIMATE_TO_DURATION_MS = 1000;      // Duration for combined center/zoom/rotation animation
+const NATIVE_ANIMATION_MAX_MS = 1000;     // Stop sampling a MapKit animation if no region-change-end arrives
 
 declare const mapkit: any;
 
@@ -51,6 +69,7 @@ export class AppleMapProvider implements MapProvider {
   private hasActiveRoute = false;
   private cachedUserLocation: LatLng | null = null;
   private locationWatchId: number | null = null;
+  private camera = new CameraEventEmitter(() => this.getCameraState());
 
   async init(container: HTMLElement, options: MapOptions): Promise<void> {
     this.container = container;
@@ -150,6 +169,17 @@ export class AppleMapProvider implements MapProvider {
         }
       });
 
+      // MapKit has no per-frame camera event - sample between region-change-start/end.
+      // A region change we didn't start ourselves is a native user gesture.
+      this.map.addEventListener('region-change-start', () => {
+        if (!this.camera.isChanging() && !this.camera.isTracking()) {
+          this.camera.track('gesture');
+        }
+      });
+      this.map.addEventListener('region-change-end', () => {
+        this.camera.stopTracking();
+      });
+
       // Listen for deselect to hide the place detail
       this.map.addEventListener('deselect', () => {
         this.selectedPOI = null;
@@ -164,8 +194,11 @@ export class AppleMapProvider implements MapProvider {
     await this.startLocationTracking();
   }
 
+  /**
+   * Load mapkit.js (only the Apple provider needs it) and wait until it's ready.
+   */
   private waitForMapKit(): Promise<void> {
-    return new Promise((resolve) => {
+    return new Promise((resolve, reject) => {
       if (typeof mapkit !== 'undefined') {
         resolve();
         return;
@@ -176,13 +209,26 @@ export class AppleMapProvider implements MapProvider {
           resolve();
         }
       }, MAPKIT_CHECK_INTERVAL_MS);
+
+      if (!document.getElementById(MAPKIT_SCRIPT_ID)) {
+        const script = document.createElement('script');
+        script.id = MAPKIT_SCRIPT_ID;
+        script.src = MAPKIT_SCRIPT_URL;
+        script.crossOrigin = 'anonymous';
+        script.async = true;
+        script.onerror = () => {
+          clearInterval(check);
+          reject(new Error('Failed to load MapKit JS'));
+        };
+        document.head.appendChild(script);
+      }
     });
   }
 
   setCenter(lat: number, lng: number, animated = true): void {
     if (!this.map) return;
     const coord = new mapkit.Coordinate(lat, lng);
-    this.map.setCenterAnimated(coord, animated);
+    this.applyNative(animated, () => this.map.setCenterAnimated(coord, animated));
   }
 
   getCenter(): LatLng {
@@ -192,37 +238,37 @@ export class AppleMapProvider implements MapProvider {
   }
 
   setZoom(level: number, animated = true): void {
-    if (!this.map) return;
-    // MapKit JS uses camera distance or span, not a simple zoom level.
-    // We convert zoom level (0-20) to a span in degrees.
-    const span = MAPKIT_ZOOM_SPAN_BASE / Math.pow(2, level);
-    const region = new mapkit.CoordinateRegion(
-      this.map.center,
-      new mapkit.CoordinateSpan(span, span)
-    );
-    this.map.setRegionAnimated(region, animated);
+    this.setCamera({ zoom: level }, animated);
   }
 
+  /**
+   * Standard web-map tile zoom: the world is 256 * 2^zoom pixels wide, so
+   * meters per pixel at the center is the equatorial value / 2^zoom * cos(lat).
+   */
   getZoom(): number {
-    if (!this.map) return 0;
-    const span = this.map.region.span.latitudeDelta;
-    // Inverse of: span = 360 / 2^zoom
-    return Math.log2(MAPKIT_ZOOM_SPAN_BASE / span);
+    return this.getTileZoom() ?? 0;
   }
 
   setCenterAndZoom(lat: number, lng: number, zoom: number, animated = true): void {
-    if (!this.map) return;
-    const span = MAPKIT_ZOOM_SPAN_BASE / Math.pow(2, zoom);
-    const region = new mapkit.CoordinateRegion(
-      new mapkit.Coordinate(lat, lng),
-      new mapkit.CoordinateSpan(span, span)
-    );
-    this.map.setRegionAnimated(region, animated);
+    this.setCamera({ center: { lat, lng }, zoom }, animated);
   }
 
   setRotation(degrees: number, animated = true): void {
     if (!this.map) return;
-    this.map.setRotationAnimated(degrees, animated);
+    this.applyNative(animated, () => this.map.setRotationAnimated(degrees, animated));
+  }
+
+  /**
+   * Apply a MapKit camera call and report it. Animated calls are sampled
+   * until MapKit signals region-change-end.
+   */
+  private applyNative(animated: boolean, apply: () => void): void {
+    if (animated) {
+      this.camera.change('animation', apply);
+      this.camera.track('animation', NATIVE_ANIMATION_MAX_MS);
+    } else {
+      this.camera.change('programmatic', apply);
+    }
   }
 
   getRotation(): number {
@@ -232,126 +278,172 @@ export class AppleMapProvider implements MapProvider {
 
   panBy(dx: number, dy: number): void {
     if (!this.map || !this.container) return;
-    const center = this.map.center;
-    const span = this.map.region.span;
-    const containerWidth = this.container.clientWidth;
-    const containerHeight = this.container.clientHeight;
-
-    // Rotate the pan vector by the map's rotation angle
-    const rotation = this.map.rotation;
-    const radians = rotation * (Math.PI / 180);
-    const cos = Math.cos(radians);
-    const sin = Math.sin(radians);
-    const rotatedDx = dx * cos + dy * sin;
-    const rotatedDy = -dx * sin + dy * cos;
-
-    // Convert pixel offset to coordinate offset
-    const lngPerPixel = span.longitudeDelta / containerWidth;
-    const latPerPixel = span.latitudeDelta / containerHeight;
-
-    let newLat = center.latitude - rotatedDy * latPerPixel;
-    let newLng = center.longitude + rotatedDx * lngPerPixel;
-
-    // Normalize longitude to -180 to 180 range
-    while (newLng > 180) newLng -= 360;
-    while (newLng < -180) newLng += 360;
+    this.camera.change('gesture', () => this.applyPan(dx, dy));
+  }
 
-    // Clamp latitude to Web Mercator limits
-    newLat = Math.max(MAPKIT_LAT_CLAMP_MIN, Math.min(MAPKIT_LAT_CLAMP_MAX, newLat));
+  private applyPan(dx: number, dy: number): void {
+    if (!this.map || !this.container) return;
+    const tileZoom = this.getTileZoom();
+    if (tileZoom === null) return;
+
+    const newCenter = panCenter(
+      this.getCenter(),
+      dx,
+      dy,
+      tileZoom,
+      this.map.rotation,
+      MAPKIT_LAT_CLAMP_MAX
+    );
+    this.map.setCenterAnimated(new mapkit.Coordinate(newCenter.lat, newCenter.lng), false);
+  }
 
-    this.map.setCenterAnimated(new mapkit.Coordinate(newLat, newLng), false);
+  /**
+   * The current scale as a Web Mercator tile zoom (world = 256 * 2^z pixels).
+   *
+   * MapKit only exposes a region in degrees, which is not linear in pixels
+   * away from the equator, so the scale is measured by converting the
+   * viewport diagonal - this also makes it independent of rotation.
+   */
+  private getTileZoom(): number | null {
+    if (!this.map || !this.container) return null;
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+
+    const topLeft = this.screenToCoordinate(0, 0);
+    const bottomRight = this.screenToCoordinate(width, height);
+    const a = project(topLeft.lat, topLeft.lng, 0);
+    const b = project(bottomRight.lat, topLeft.lng + wrapLongitude(bottomRight.lng - topLeft.lng), 0);
+    const worldDiagonal = Math.hypot(b.x - a.x, b.y - a.y);
+    if (worldDiagonal === 0) return null;
+
+    return Math.log2(Math.hypot(width, height) / worldDiagonal / TILE_SIZE);
   }
 
   zoomAtPoint(x: number, y: number, zoomDelta: number): void {
     if (!this.map || !this.container) return;
+    this.camera.change('gesture', () => this.applyZoomAtPoint(x, y, zoomDelta));
+  }
 
-    const rect = this.container.getBoundingClientRect();
-
-    // Step 1: Remember the geographic coordinate under the cursor BEFORE zoom
-    const cursorPageX = rect.left + x;
-    const cursorPageY = rect.top + y;
-    const cursorPoint = new DOMPoint(cursorPageX, cursorPageY);
-    const targetCoord = this.map.convertPointOnPageToCoordinate(cursorPoint);
+  /**
+   * Zoom about a screen point with a single region set.
+   *
+   * Scaling the map by s about anchor A moves the point currently at
+   * A + (C - A) / s to the viewport center C, so the final center can be read
+   * off the current camera before anything changes.
+   */
+  private applyZoomAtPoint(x: number, y: number, zoomDelta: number): void {
+    if (!this.map || !this.container) return;
 
-    // Step 2: Apply zoom at equator to avoid latitude-dependent zoom restrictions
-    const oldZoom = this.getZoom();
-    const originalCenter = this.map.center;
-    const originalRotation = this.getRotation(); // Save rotation before equator workaround
+    const oldZoom = this.getTileZoom();
+    if (oldZoom === null) return;
+    const newZoom = this.clampZoom(oldZoom + zoomDelta);
 
-    // Step 2a: Pan to equator
-    this.map.setCenterAnimated(new mapkit.Coordinate(0, originalCenter.longitude), false);
+    if (Math.abs(newZoom - oldZoom) < ZOOM_CLAMPING_EPSILON) {
+      // Zoom is clamped, so there's nothing to compensate for
+      return;
+    }
 
-    // Step 2b: Read the actual zoom level at equator (panning might have changed it)
-    const zoomAtEquator = this.getZoom();
+    const scale = Math.pow(2, newZoom - oldZoom);
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+    const newCenter = this.screenToCoordinate(
+      x + (width / 2 - x) / scale,
+      y + (height / 2 - y) / scale
+    );
 
-    // Get current span to preserve aspect ratio
-    const currentSpan = this.map.region.span;
-    const aspectRatio = currentSpan.longitudeDelta / currentSpan.latitudeDelta;
+    this.applyRegion(this.regionFor(newCenter, newZoom), this.map.rotation, false);
+  }
 
-    // Step 2c: Calculate new zoom with delta
-    const requestedZoom = Math.max(ZOOM_MIN_LEVEL, Math.min(ZOOM_MAX_LEVEL, zoomAtEquator + zoomDelta));
-    const newLatSpan = MAPKIT_ZOOM_SPAN_BASE / Math.pow(2, requestedZoom);
-    const newLngSpan = newLatSpan * aspectRatio;
+  /**
+   * Clamp to the configured zoom range, and never zoom out past the point
+   * where the world is shorter than the viewport.
+   */
+  private clampZoom(zoom: number): number {
+    const height = this.container?.clientHeight ?? 0;
+    const minWorldZoom = height > 0 ? Math.log2(height / TILE_SIZE) + ZOOM_LIMIT_EPSILON : ZOOM_MIN_LEVEL;
+    return Math.max(ZOOM_MIN_LEVEL, minWorldZoom, Math.min(ZOOM_MAX_LEVEL, zoom));
+  }
 
-    // Step 2d: Apply zoom change at equator
-    let equatorZoomRegion = new mapkit.CoordinateRegion(
-      new mapkit.Coordinate(0, originalCenter.longitude),
-      new mapkit.CoordinateSpan(newLatSpan, newLngSpan)
+  /**
+   * The MapKit region that shows the viewport at a tile zoom around center.
+   * The center is nudged so the viewport stays inside the projection vertically.
+   */
+  private regionFor(center: LatLng, zoom: number): any {
+    const width = this.container?.clientWidth ?? 0;
+    const height = this.container?.clientHeight ?? 0;
+    const size = worldSize(zoom);
+
+    const centerWorld = project(center.lat, center.lng, zoom);
+    const centerY = Math.max(height / 2, Math.min(size - height / 2, centerWorld.y));
+    const north = unproject(centerWorld.x, centerY - height / 2, zoom).lat;
+    const south = unproject(centerWorld.x, centerY + height / 2, zoom).lat;
+
+    return new mapkit.CoordinateRegion(
+      new mapkit.Coordinate(unproject(centerWorld.x, centerY, zoom).lat, wrapLongitude(center.lng)),
+      new mapkit.CoordinateSpan(north - south, (width / size) * MAPKIT_ZOOM_SPAN_BASE)
     );
-    this.map.setRegionAnimated(equatorZoomRegion, false);
-
-    // Step 2e: Read zoom again - if MapKit clamped it when zooming out, add epsilon
-    const actualZoomAtEquator = this.getZoom();
-    if (zoomDelta < 0 && Math.abs(actualZoomAtEquator - requestedZoom) > ZOOM_CLAMPING_EPSILON) {
-      // MapKit clamped our zoom out request - add epsilon to stay away from limit
-      const adjustedZoom = actualZoomAtEquator + ZOOM_LIMIT_EPSILON;
-      const adjLatSpan = MAPKIT_ZOOM_SPAN_BASE / Math.pow(2, adjustedZoom);
-      const adjLngSpan = adjLatSpan * aspectRatio;
-      equatorZoomRegion = new mapkit.CoordinateRegion(
-        new mapkit.Coordinate(0, originalCenter.longitude),
-        new mapkit.CoordinateSpan(adjLatSpan, adjLngSpan)
-      );
-      this.map.setRegionAnimated(equatorZoomRegion, false);
-    }
-
-    // Step 2f: Pan back to original location
-    this.map.setCenterAnimated(originalCenter, false);
-
-    // Restore rotation (panning may have reset it)
-    this.setRotation(originalRotation, false);
+  }
 
-    // Check if zoom actually changed (compare before and after)
-    const actualZoom = this.getZoom();
+  /**
+   * Move center, zoom and rotation together with one region set.
+   */
+  setCamera(camera: CameraOptions, animated = true): void {
+    if (!this.map) return;
+    const center = camera.center ?? this.getCenter();
+    const zoom = this.clampZoom(camera.zoom ?? this.getZoom());
+    const region = this.regionFor(center, zoom);
+    this.applyNative(animated, () => {
+      this.applyRegion(region, camera.rotation ?? this.map.rotation, animated);
+    });
+  }
 
-    if (Math.abs(actualZoom - oldZoom) < ZOOM_CLAMPING_EPSILON) {
-      // Zoom was clamped and didn't change, so don't do compensating pan
-      // (otherwise we'd undo the pan that was done before calling this method)
-      return;
+  /**
+   * Set the region, then the rotation only if it actually differs.
+   */
+  private applyRegion(region: any, rotation: number, animated: boolean): void {
+    this.map.setRegionAnimated(region, animated);
+    if (Math.abs(this.map.rotation - rotation) > ROTATION_EPSILON) {
+      this.map.setRotationAnimated(rotation, animated);
     }
+  }
 
-    // Step 3: Pan so that the target coordinate is back under the cursor
-    // Get where the target coordinate is now displayed after zoom
-    const targetPagePoint = this.map.convertCoordinateToPointOnPage(targetCoord);
+  getBounds(): MapBounds {
+    if (!this.map || !this.container) return { north: 0, south: 0, east: 0, west: 0 };
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+    // A rotated map shows more than its axis-aligned span - cover all four corners
+    return boundsFromViewportCorners(
+      [
+        this.screenToCoordinate(0, 0),
+        this.screenToCoordinate(width, 0),
+        this.screenToCoordinate(width, height),
+        this.screenToCoordinate(0, height),
+      ],
+      this.getCenter(),
+      viewportLongitudeSpan(width, height, this.getZoom(), this.getRotation())
+    );
+  }
 
-    // Calculate how many pixels we need to pan
-    const panPixelsX = targetPagePoint.x - cursorPageX;
-    const panPixelsY = targetPagePoint.y - cursorPageY;
+  screenToCoordinate(x: number, y: number): LatLng {
+    if (!this.map || !this.container) return { lat: 0, lng: 0 };
+    // MapKit converts page points, so offset by the container position
+    const rect = this.container.getBoundingClientRect();
+    const coord = this.map.convertPointOnPageToCoordinate(new DOMPoint(rect.left + x, rect.top + y));
+    return { lat: coord.latitude, lng: coord.longitude };
+  }
 
-    // Apply the pan
-    this.panBy(panPixelsX, panPixelsY);
+  coordinateToScreen(lat: number, lng: number): ScreenPoint {
+    if (!this.map || !this.container) return { x: 0, y: 0 };
+    const rect = this.container.getBoundingClientRect();
+    const pagePoint = this.map.convertCoordinateToPointOnPage(new mapkit.Coordinate(lat, lng));
+    return { x: pagePoint.x - rect.left, y: pagePoint.y - rect.top };
   }
 
-  getBounds(): MapBounds {
-    if (!this.map) return { north: 0, south: 0, east: 0, west: 0 };
-    const region = this.map.region;
-    const center = region.center;
-    const span = region.span;
-    return {
-      north: center.latitude + span.latitudeDelta / 2,
-      south: center.latitude - span.latitudeDelta / 2,
-      east: center.longitude + span.longitudeDelta / 2,
-      west: center.longitude - span.longitudeDelta / 2,
-    };
+  placeCoordinateAtScreenPoint(coord: LatLng, x: number, y: number): void {
+    if (!this.map || !this.container) return;
+    // Pan by however far the coordinate currently is from the target point
+    const current = this.coordinateToScreen(coord.lat, coord.lng);
+    this.camera.change('gesture', () => this.applyPan(current.x - x, current.y - y));
   }
 
   setNativeInteractionsEnabled(enabled: boolean): void {
@@ -927,78 +1019,6 @@ export class AppleMapProvider implements MapProvider {
     this.routePoints = null;
   }
 
-  /**
-   * Find the index of the closest point on the route to the given location.
-   * Also returns the projected point on the line segment for more precise tracking.
-   */
-  private findClosestPointOnRoute(location: LatLng): { index: number; projectedPoint: LatLng } | null {
-    if (!this.routePoints || this.routePoints.length < 2) return null;
-
-    let closestIndex = 0;
-    let closestDistance = Infinity;
-    let closestProjectedPoint: LatLng = this.routePoints[0];
-
-    // Check each segment of the route
-    for (let i = 0; i < this.routePoints.length - 1; i++) {
-      const segmentStart = this.routePoints[i];
-      const segmentEnd = this.routePoints[i + 1];
-
-      // Project the location onto the line segment
-      const projected = this.projectPointOnSegment(location, segmentStart, segmentEnd);
-      const distance = this.haversineDistance(location, projected);
-
-      if (distance < closestDistance) {
-        closestDistance = distance;
-        closestIndex = i;
-        closestProjectedPoint = projected;
-      }
-    }
-
-    return { index: closestIndex, projectedPoint: closestProjectedPoint };
-  }
-
-  /**
-   * Project a point onto a line segment, returning the closest point on the segment.
-   */
-  private projectPointOnSegment(point: LatLng, segmentStart: LatLng, segmentEnd: LatLng): LatLng {
-    const dx = segmentEnd.lng - segmentStart.lng;
-    const dy = segmentEnd.lat - segmentStart.lat;
-    const lengthSquared = dx * dx + dy * dy;
-
-    if (lengthSquared === 0) {
-      // Segment is a point
-      return segmentStart;
-    }
-
-    // Calculate projection parameter t (0 = start, 1 = end)
-    const t = Math.max(0, Math.min(1,
-      ((point.lng - segmentStart.lng) * dx + (point.lat - segmentStart.lat) * dy) / lengthSquared
-    ));
-
-    return {
-      lat: segmentStart.lat + t * dy,
-      lng: segmentStart.lng + t * dx,
-    };
-  }
-
-  /**
-   * Calculate the Haversine distance between two points in meters.
-   */
-  private haversineDistance(point1: LatLng, point2: LatLng): number {
-    const R = EARTH_RADIUS_METERS;
-    const lat1 = point1.lat * Math.PI / 180;
-    const lat2 = point2.lat * Math.PI / 180;
-    const deltaLat = (point2.lat - point1.lat) * Math.PI / 180;
-    const deltaLng = (point2.lng - point1.lng) * Math.PI / 180;
-
-    const a = Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-              Math.cos(lat1) * Math.cos(lat2) *
-              Math.sin(deltaLng / 2) * Math.sin(deltaLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  }
-
   /**
    * Update the route visualization based on user's current location.
    * Draws traveled portion in grey and remaining portion in blue.
@@ -1006,7 +1026,7 @@ export class AppleMapProvider implements MapProvider {
   private updateRouteProgress(userLocation: LatLng): void {
     if (!this.map || !this.routePoints || this.routePoints.length < 2) return;
 
-    const closest = this.findClosestPointOnRoute(userLocation);
+    const closest = closestPointOnPolyline(userLocation, this.routePoints);
     if (!closest) return;
 
     // Remove existing overlays
@@ -1024,10 +1044,10 @@ export class AppleMapProvider implements MapProvider {
     for (let i = 0; i <= closest.index; i++) {
       traveledPoints.push(this.routePoints[i]);
     }
-    traveledPoints.push(closest.projectedPoint);
+    traveledPoints.push(closest.point);
 
     // Build remaining portion: from projected point to end
-    const remainingPoints: LatLng[] = [closest.projectedPoint];
+    const remainingPoints: LatLng[] = [closest.point];
     for (let i = closest.index + 1; i < this.routePoints.length; i++) {
       remainingPoints.push(this.routePoints[i]);
     }
@@ -1177,12 +1197,7 @@ export class AppleMapProvider implements MapProvider {
     if (rotation !== undefined) {
       this.animateTo(location.lat, location.lng, targetZoom, rotation);
     } else {
-      const span = MAPKIT_ZOOM_SPAN_BASE / Math.pow(2, targetZoom);
-      const region = new mapkit.CoordinateRegion(
-        new mapkit.Coordinate(location.lat, location.lng),
-        new mapkit.CoordinateSpan(span, span)
-      );
-      this.map.setRegionAnimated(region, true);
+      this.setCamera({ center: location, zoom: targetZoom }, true);
     }
   }
 
@@ -1236,8 +1251,9 @@ export class AppleMapProvider implements MapProvider {
       const curZoom = startZoom + (zoom - startZoom) * ease;
       const curRotation = startRotation + deltaRotation * ease;
 
-      this.setCenterAndZoom(curLat, curLng, curZoom, false);
-      this.setRotation(curRotation, false);
+      this.camera.change('animation', () => {
+        this.setCamera({ center: { lat: curLat, lng: curLng }, zoom: curZoom, rotation: curRotation }, false);
+      });
 
       if (t < 1) {
         requestAnimationFrame(step);
@@ -1247,7 +1263,33 @@ export class AppleMapProvider implements MapProvider {
     requestAnimationFrame(step);
   }
 
+  on(type: CameraEventType, listener: CameraListener): () => void {
+    return this.camera.on(type, listener);
+  }
+
+  off(type: CameraEventType, listener: CameraListener): void {
+    this.camera.off(type, listener);
+  }
+
+  beginGesture(): void {
+    this.camera.beginGesture();
+  }
+
+  endGesture(): void {
+    this.camera.endGesture();
+  }
+
+  private getCameraState(): CameraState {
+    return {
+      center: this.getCenter(),
+      zoom: this.getZoom(),
+      rotation: this.getRotation(),
+      bounds: this.getBounds(),
+    };
+  }
+
   destroy(): void {
+    this.camera.destroy();
     this.stopLocationTracking();
     this.hidePlaceDetail();
     this.clearRoute();
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GoogleMapProvider } from './GoogleMapProvider';
+
+/**
+ * The slice of google.maps.Map the provider's camera math goes through.
+ */
+class FakeGoogleMap {
+  private center: { lat: number; lng: number };
+  private zoom: number;
+  private heading: number;
+
+  constructor(_container: unknown, options: { center: { lat: number; lng: number }; zoom: number; heading: number }) {
+    this.center = { ...options.center };
+    this.zoom = options.zoom;
+    this.heading = options.heading;
+  }
+
+  getCenter() {
+    const { lat, lng } = this.center;
+    return { lat: () => lat, lng: () => lng };
+  }
+
+  getZoom(): number {
+    return this.zoom;
+  }
+
+  getHeading(): number {
+    return this.heading;
+  }
+
+  moveCamera(camera: { center?: { lat: number; lng: number }; zoom?: number; heading?: number }): void {
+    if (camera.center) this.center = { ...camera.center };
+    if (camera.zoom !== undefined) this.zoom = camera.zoom;
+    if (camera.heading !== undefined) this.heading = camera.heading;
+  }
+
+  addListener(): void {}
+  setOptions(): void {}
+}
+
+async function provider(rotation = 0): Promise<GoogleMapProvider> {
+  const map = new GoogleMapProvider();
+  const container = { clientWidth: 400, clientHeight: 800 } as unknown as HTMLElement;
+  await map.init(container, { center: { lat: 48.8566, lng: 2.3522 }, zoom: 12, rotation });
+  return map;
+}
+
+describe('GoogleMapProvider', () => {
+  beforeEach(() => {
+    vi.stubGlobal('google', { maps: { Map: FakeGoogleMap, event: { clearInstanceListeners: () => {} } } });
+    vi.stubGlobal('navigator', {}); // No geolocation
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips screen points through coordinates', async () => {
+    const map = await provider(35);
+    for (const [x, y] of [[0, 0], [200, 400], [399, 17], [123.5, 790]]) {
+      const coord = map.screenToCoordinate(x, y);
+      const screen = map.coordinateToScreen(coord.lat, coord.lng);
+      expect(screen.x).toBeCloseTo(x, 6);
+      expect(screen.y).toBeCloseTo(y, 6);
+    }
+    map.destroy();
+  });
+
+  it('keeps the coordinate under the zoom point anchored', async () => {
+    for (const rotation of [0, 60, 245]) {
+      const map = await provider(rotation);
+      expect(map.getRotation()).toBeCloseTo(rotation, 9);
+      const anchor = map.screenToCoordinate(80, 650);
+
+      map.zoomAtPoint(80, 650, 1.7);
+      map.zoomAtPoint(80, 650, -0.4);
+
+      expect(map.getZoom()).toBeCloseTo(13.3, 9);
+      const screen = map.coordinateToScreen(anchor.lat, anchor.lng);
+      expect(screen.x).toBeCloseTo(80, 6);
+      expect(screen.y).toBeCloseTo(650, 6);
+      map.destroy();
+    }
+  });
+
+  it('pans by exact screen pixels', async () => {
+    const map = await provider(90);
+    const coord = map.screenToCoordinate(100, 100);
+    map.panBy(30, -20);
+    const screen = map.coordinateToScreen(coord.lat, coord.lng);
+    expect(screen.x).toBeCloseTo(70, 6);
+    expect(screen.y).toBeCloseTo(120, 6);
+    map.destroy();
+  });
+});
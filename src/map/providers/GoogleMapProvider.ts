@@ -0,0 +1,745 @@
+import {
+  MapProvider,
+  MapOptions,
+  LatLng,
+  MapBounds,
+  MapMarker,
+  RouteInfo,
+  ScreenPoint,
+  CameraOptions,
+  CameraState,
+  CameraEventType,
+  CameraListener,
+} from '../types';
+import { CameraEventEmitter } from '../CameraEventEmitter';
+import { UnsupportedCapabilityError } from '../errors';
+import { boundsFromViewportCorners, viewportLongitudeSpan } from '../bounds';
+import { config } from '../../config';
+import {
+  project,
+  unproject,
+  screenOffsetToWorld,
+  worldOffsetToScreen,
+  wrapLongitude,
+  panCenter,
+} from '../mercator';
+import {
+  ZOOM_MIN_LEVEL,
+  ZOOM_MAX_LEVEL,
+  GEOLOCATION_FAST_TIMEOUT_MS,
+  GEOLOCATION_FALLBACK_TIMEOUT_MS,
+  GEOLOCATION_WATCH_MAX_AGE_MS,
+  GEOLOCATION_WATCH_TIMEOUT_MS,
+  ROUTE_LINE_WIDTH,
+  ROUTE_STROKE_COLOR,
+  ROUTE_STROKE_OPACITY,
+  ROUTE_WALKING_DASH,
+  ROUTE_CYCLING_DASH,
+  MARKER_COLOR,
+} from '../../control';
+
+// Non-tunable constants (geometric/physical constants and epsilons)
+const GOOGLE_CHECK_INTERVAL_MS = 50;     // Polling interval for Google Maps availability
+const GOOGLE_SCRIPT_ID = 'google-maps-js';
+const GOOGLE_LAT_CLAMP_MAX = 85;         // Web Mercator latitude limit (±)
+const ZOOM_CLAMPING_EPSILON = 0.001;     // Epsilon for detecting zoom clamping
+const ANIMATE_TO_DURATION_MS = 1000;     // Duration for combined center/zoom/rotation animation
+const NATIVE_ANIMATION_MAX_MS = 1000;    // Stop sampling a panTo animation if no idle event arrives
+
+// MapKit POI category names (used throughout the app) -> Google Places types.
+// Categories without an equivalent type fall back to a keyword search.
+const POI_CATEGORY_TO_PLACE_TYPE: Record<string, string> = {
+  Restaurant: 'restaurant',
+  Cafe: 'cafe',
+  Bakery: 'bakery',
+  FoodMarket: 'supermarket',
+  Nightlife: 'bar',
+  MovieTheater: 'movie_theater',
+  Amusement: 'amusement_park',
+  Casino: 'casino',
+  Park: 'park',
+  NationalPark: 'park',
+  Campground: 'campground',
+  Zoo: 'zoo',
+  Aquarium: 'aquarium',
+  FitnessCenter: 'gym',
+  Stadium: 'stadium',
+  Bank: 'bank',
+  ATM: 'atm',
+  Hospital: 'hospital',
+  Pharmacy: 'pharmacy',
+  Police: 'police',
+  FireStation: 'fire_station',
+  PostOffice: 'post_office',
+  Laundry: 'laundry',
+  GasStation: 'gas_station',
+  Parking: 'parking',
+  CarRental: 'car_rental',
+  Automotive: 'car_repair',
+  Hotel: 'lodging',
+  Airport: 'airport',
+  PublicTransport: 'transit_station',
+  RVPark: 'rv_park',
+  Store: 'store',
+  Museum: 'museum',
+  Library: 'library',
+  School: 'school',
+  University: 'university',
+  Spa: 'spa',
+  Beauty: 'beauty_salon',
+  HairSalon: 'hair_care',
+  Dentist: 'dentist',
+  Doctor: 'doctor',
+};
+
+// MapKit POI category names -> Google basemap style feature types (for POI filtering).
+// Anything not listed is treated as a business.
+const POI_CATEGORY_TO_FEATURE_TYPE: Record<string, string> = {
+  Park: 'poi.park',
+  NationalPark: 'poi.park',
+  Beach: 'poi.park',
+  Campground: 'poi.park',
+  Zoo: 'poi.attraction',
+  Aquarium: 'poi.attraction',
+  Amusement: 'poi.attraction',
+  Museum: 'poi.attraction',
+  Landmark: 'poi.attraction',
+  Castle: 'poi.attraction',
+  Fortress: 'poi.attraction',
+  Hospital: 'poi.medical',
+  Pharmacy: 'poi.medical',
+  Doctor: 'poi.medical',
+  Dentist: 'poi.medical',
+  Police: 'poi.government',
+  FireStation: 'poi.government',
+  PostOffice: 'poi.government',
+  School: 'poi.school',
+  University: 'poi.school',
+  Stadium: 'poi.sports_complex',
+  FitnessCenter: 'poi.sports_complex',
+  Golf: 'poi.sports_complex',
+  Swimming: 'poi.sports_complex',
+  Tennis: 'poi.sports_complex',
+  Soccer: 'poi.sports_complex',
+};
+
+/**
+ * GoogleMapProvider - MapProvider backed by the Google Maps JavaScript API.
+ *
+ * Camera moves go through moveCamera() with positions computed in Web Mercator,
+ * so panBy/zoomAtPoint stay exact under rotation. Rotation requires a vector
+ * map (VITE_GOOGLE_MAPS_MAP_ID); Google's heading is the inverse of MapKit's
+ * clockwise rotation, so it is negated at the boundary.
+ */
+export class GoogleMapProvider implements MapProvider {
+  private map: any = null;
+  private container: HTMLElement | null = null;
+  private markers: { marker: MapMarker; googleMarker: any }[] = [];
+  private markerSelectCallback: ((marker: MapMarker) => void) | null = null;
+  private routePolyline: any = null;
+  private cachedUserLocation: LatLng | null = null;
+  private locationWatchId: number | null = null;
+  private animationId: number | null = null;
+  private poiFilterWarned = false;
+  private camera = new CameraEventEmitter(() => this.getCameraState());
+
+  async init(container: HTMLElement, options: MapOptions): Promise<void> {
+    this.container = container;
+
+    await this.waitForGoogleMaps();
+
+    this.map = new google.maps.Map(container, {
+      center: { lat: options.center.lat, lng: options.center.lng },
+      zoom: this.clampZoom(options.zoom),
+      heading: -(options.rotation ?? 0),
+      tilt: 0,
+      mapId: config.google.mapId || undefined,
+      disableDefaultUI: true,
+      keyboardShortcuts: false,
+      isFractionalZoomEnabled: true,
+      minZoom: ZOOM_MIN_LEVEL,
+      maxZoom: ZOOM_MAX_LEVEL,
+      // Custom gestures are handled by the interaction layer
+      gestureHandling: 'none',
+    });
+
+    // Google animates panTo and native drags on its own - sample until the map is idle
+    this.map.addListener('dragstart', () => this.camera.track('gesture'));
+    this.map.addListener('idle', () => this.camera.stopTracking());
+
+    // Start watching user location (wait for initial position)
+    await this.startLocationTracking();
+  }
+
+  private waitForGoogleMaps(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (typeof google !== 'undefined' && google.maps?.Map) {
+        resolve();
+        return;
+      }
+
+      const apiKey = config.google.apiKey;
+      if (!apiKey) {
+        reject(new Error('Google Maps API key not configured. Set VITE_GOOGLE_MAPS_API_KEY in .env'));
+        return;
+      }
+
+      const check = setInterval(() => {
+        if (typeof google !== 'undefined' && google.maps?.Map) {
+          clearInterval(check);
+          resolve();
+        }
+      }, GOOGLE_CHECK_INTERVAL_MS);
+
+      if (!document.getElementById(GOOGLE_SCRIPT_ID)) {
+        const script = document.createElement('script');
+        script.id = GOOGLE_SCRIPT_ID;
+        script.src = `https://maps.googleapis.com/maps/api/js?key=${encodeURIComponent(apiKey)}&libraries=places&v=weekly`;
+        script.async = true;
+        script.onerror = () => {
+          clearInterval(check);
+          reject(new Error('Failed to load Google Maps JavaScript API'));
+        };
+        document.head.appendChild(script);
+      }
+    });
+  }
+
+  private clampZoom(zoom: number): number {
+    return Math.max(ZOOM_MIN_LEVEL, Math.min(ZOOM_MAX_LEVEL, zoom));
+  }
+
+  setCenter(lat: number, lng: number, animated = true): void {
+    if (!this.map) return;
+    if (animated) {
+      this.camera.change('animation', () => this.map.panTo({ lat, lng }));
+      this.camera.track('animation', NATIVE_ANIMATION_MAX_MS);
+    } else {
+      this.camera.change('programmatic', () => this.map.moveCamera({ center: { lat, lng } }));
+    }
+  }
+
+  getCenter(): LatLng {
+    if (!this.map) return { lat: 0, lng: 0 };
+    const center = this.map.getCenter();
+    if (!center) return { lat: 0, lng: 0 };
+    return { lat: center.lat(), lng: center.lng() };
+  }
+
+  setZoom(level: number, animated = true): void {
+    if (!this.map) return;
+    if (animated) {
+      const center = this.getCenter();
+      this.animateTo(center.lat, center.lng, level, this.getRotation());
+    } else {
+      this.camera.change('programmatic', () => this.map.moveCamera({ zoom: this.clampZoom(level) }));
+    }
+  }
+
+  getZoom(): number {
+    if (!this.map) return 0;
+    return this.map.getZoom() ?? 0;
+  }
+
+  setCenterAndZoom(lat: number, lng: number, zoom: number, animated = true): void {
+    if (!this.map) return;
+    this.setCamera({ center: { lat, lng }, zoom }, animated);
+  }
+
+  setRotation(degrees: number, animated = true): void {
+    if (!this.map) return;
+    if (animated) {
+      const center = this.getCenter();
+      this.animateTo(center.lat, center.lng, this.getZoom(), degrees);
+    } else {
+      this.camera.change('programmatic', () => this.map.moveCamera({ heading: -degrees }));
+    }
+  }
+
+  getRotation(): number {
+    if (!this.map) return 0;
+    const heading = this.map.getHeading() ?? 0;
+    return ((-heading % 360) + 360) % 360;
+  }
+
+  /**
+   * Move center, zoom and rotation together in a single moveCamera call.
+   */
+  setCamera(camera: CameraOptions, animated = true): void {
+    if (!this.map) return;
+    if (animated) {
+      const center = camera.center ?? this.getCenter();
+      this.animateTo(
+        center.lat,
+        center.lng,
+        camera.zoom ?? this.getZoom(),
+        camera.rotation ?? this.getRotation()
+      );
+    } else {
+      this.camera.change('programmatic', () => {
+        this.map.moveCamera({
+          ...(camera.center && { center: { lat: camera.center.lat, lng: camera.center.lng } }),
+          ...(camera.zoom !== undefined && { zoom: this.clampZoom(camera.zoom) }),
+          ...(camera.rotation !== undefined && { heading: -camera.rotation }),
+        });
+      });
+    }
+  }
+
+  panBy(dx: number, dy: number): void {
+    if (!this.map) return;
+    this.camera.change('gesture', () => this.applyPan(dx, dy));
+  }
+
+  private applyPan(dx: number, dy: number): void {
+    const newCenter = panCenter(
+      this.getCenter(),
+      dx,
+      dy,
+      this.getZoom(),
+      this.getRotation(),
+      GOOGLE_LAT_CLAMP_MAX
+    );
+    this.map.moveCamera({ center: newCenter });
+  }
+
+  zoomAtPoint(x: number, y: number, zoomDelta: number): void {
+    if (!this.map || !this.container) return;
+
+    const oldZoom = this.getZoom();
+    const newZoom = this.clampZoom(oldZoom + zoomDelta);
+    if (Math.abs(newZoom - oldZoom) < ZOOM_CLAMPING_EPSILON) return;
+
+    // Offset of the cursor from the viewport center, in world pixels
+    const offset = screenOffsetToWorld(
+      x - this.container.clientWidth / 2,
+      y - this.container.clientHeight / 2,
+      this.getRotation()
+    );
+
+    // Remember the geographic coordinate under the cursor BEFORE zoom
+    const center = this.getCenter();
+    const centerWorld = project(center.lat, center.lng, oldZoom);
+    const target = unproject(centerWorld.x + offset.x, centerWorld.y + offset.y, oldZoom);
+
+    // Choose the new center so that the target stays under the cursor
+    const targetWorld = project(target.lat, target.lng, newZoom);
+    const newCenter = unproject(targetWorld.x - offset.x, targetWorld.y - offset.y, newZoom);
+
+    this.camera.change('gesture', () => {
+      this.map.moveCamera({
+        center: { lat: newCenter.lat, lng: wrapLongitude(newCenter.lng) },
+        zoom: newZoom,
+      });
+    });
+  }
+
+  screenToCoordinate(x: number, y: number): LatLng {
+    if (!this.map || !this.container) return { lat: 0, lng: 0 };
+    const zoom = this.getZoom();
+    const center = this.getCenter();
+    const centerWorld = project(center.lat, center.lng, zoom);
+    const offset = screenOffsetToWorld(
+      x - this.container.clientWidth / 2,
+      y - this.container.clientHeight / 2,
+      this.getRotation()
+    );
+    const coord = unproject(centerWorld.x + offset.x, centerWorld.y + offset.y, zoom);
+    return { lat: coord.lat, lng: wrapLongitude(coord.lng) };
+  }
+
+  coordinateToScreen(lat: number, lng: number): ScreenPoint {
+    if (!this.map || !this.container) return { x: 0, y: 0 };
+    const zoom = this.getZoom();
+    const center = this.getCenter();
+
+    // Measure longitude the short way around from the center
+    const unwrappedLng = center.lng + wrapLongitude(lng - center.lng);
+    const centerWorld = project(center.lat, center.lng, zoom);
+    const pointWorld = project(lat, unwrappedLng, zoom);
+    const offset = worldOffsetToScreen(
+      pointWorld.x - centerWorld.x,
+      pointWorld.y - centerWorld.y,
+      this.getRotation()
+    );
+    return {
+      x: this.container.clientWidth / 2 + offset.x,
+      y: this.container.clientHeight / 2 + offset.y,
+    };
+  }
+
+  placeCoordinateAtScreenPoint(coord: LatLng, x: number, y: number): void {
+    if (!this.map) return;
+    const current = this.coordinateToScreen(coord.lat, coord.lng);
+    this.camera.change('gesture', () => this.applyPan(current.x - x, current.y - y));
+  }
+
+  getBounds(): MapBounds {
+    if (!this.map || !this.container) return { north: 0, south: 0, east: 0, west: 0 };
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+    // A rotated map shows more than its axis-aligned span - cover all four corners
+    return boundsFromViewportCorners(
+      [
+        this.screenToCoordinate(0, 0),
+        this.screenToCoordinate(width, 0),
+        this.screenToCoordinate(width, height),
+        this.screenToCoordinate(0, height),
+      ],
+      this.getCenter(),
+      viewportLongitudeSpan(width, height, this.getZoom(), this.getRotation())
+    );
+  }
+
+  setNativeInteractionsEnabled(enabled: boolean): void {
+    if (!this.map) return;
+    this.map.setOptions({ gestureHandling: enabled ? 'greedy' : 'none' });
+  }
+
+  addMarkers(markers: MapMarker[]): void {
+    if (!this.map) return;
+
+    for (const marker of markers) {
+      const googleMarker = new google.maps.Marker({
+        position: { lat: marker.lat, lng: marker.lng },
+        map: this.map,
+        title: marker.title,
+        icon: {
+          path: google.maps.SymbolPath.CIRCLE,
+          scale: 8,
+          fillColor: MARKER_COLOR,
+          fillOpacity: 1,
+          strokeColor: '#ffffff',
+          strokeWeight: 2,
+        },
+      });
+
+      googleMarker.addListener('click', () => {
+        if (this.markerSelectCallback) {
+          this.markerSelectCallback(marker);
+        }
+      });
+
+      this.markers.push({ marker, googleMarker });
+    }
+  }
+
+  clearMarkers(): void {
+    for (const { googleMarker } of this.markers) {
+      google.maps.event.clearInstanceListeners(googleMarker);
+      googleMarker.setMap(null);
+    }
+    this.markers = [];
+  }
+
+  onMarkerSelect(callback: (marker: MapMarker) => void): void {
+    this.markerSelectCallback = callback;
+  }
+
+  filterPOIByCategories(categories: string[]): void {
+    if (!this.map) return;
+    if (config.google.mapId) {
+      // A map ID means cloud-based styling, which ignores the styles option
+      // and has no runtime switch for POI categories
+      if (!this.poiFilterWarned) {
+        console.warn(new UnsupportedCapabilityError('poiFilter', 'google').message);
+        this.poiFilterWarned = true;
+      }
+      return;
+    }
+
+    // Hide all POIs, then re-enable the feature types that cover the requested categories
+    const styles: google.maps.MapTypeStyle[] = [{ featureType: 'poi', stylers: [{ visibility: 'off' }] }];
+    const featureTypes = new Set(
+      categories.map((cat) => POI_CATEGORY_TO_FEATURE_TYPE[cat] ?? 'poi.business')
+    );
+    for (const featureType of featureTypes) {
+      styles.push({ featureType, stylers: [{ visibility: 'on' }] });
+    }
+
+    this.map.setOptions({ styles });
+  }
+
+  clearPOIFilter(): void {
+    if (!this.map || config.google.mapId) return;
+    // Reset to show all POIs
+    this.map.setOptions({ styles: null });
+  }
+
+  async searchPOIsInView(categories: string[], maxResults: number): Promise<MapMarker[]> {
+    if (!this.map || categories.length === 0) return [];
+
+    const bounds = this.map.getBounds();
+    if (!bounds) return [];
+
+    const service = new google.maps.places.PlacesService(this.map);
+    const requests = categories.map((cat) => {
+      const type = POI_CATEGORY_TO_PLACE_TYPE[cat];
+      const request = type ? { bounds, type } : { bounds, keyword: cat };
+      return new Promise<any[]>((resolve) => {
+        service.nearbySearch(request, (results: any[] | null, status: string) => {
+          if (status !== google.maps.places.PlacesServiceStatus.OK || !results) {
+            if (status !== google.maps.places.PlacesServiceStatus.ZERO_RESULTS) {
+              console.warn('POI search error:', status);
+            }
+            resolve([]);
+            return;
+          }
+          resolve(results);
+        });
+      });
+    });
+
+    // Merge results across categories, dropping duplicates
+    const seen = new Set<string>();
+    const places: any[] = [];
+    for (const results of await Promise.all(requests)) {
+      for (const place of results) {
+        if (!place.geometry?.location || seen.has(place.place_id)) continue;
+        seen.add(place.place_id);
+        places.push(place);
+      }
+    }
+
+    // Convert places to MapMarker format, limit to maxResults
+    return places.slice(0, maxResults).map((place, i) => ({
+      id: `poi-${i}`,
+      lat: place.geometry.location.lat(),
+      lng: place.geometry.location.lng(),
+      title: place.name || '',
+      subtitle: place.vicinity || '',
+      placeId: place.place_id,
+    }));
+  }
+
+  showRoute(points: LatLng[], transport: string = 'Automobile'): void {
+    if (!this.map || points.length < 2) return;
+
+    // Clear any existing route
+    this.clearRoute();
+
+    const options: any = {
+      path: points.map((p) => ({ lat: p.lat, lng: p.lng })),
+      strokeColor: ROUTE_STROKE_COLOR,
+      strokeOpacity: ROUTE_STROKE_OPACITY,
+      strokeWeight: ROUTE_LINE_WIDTH,
+      map: this.map,
+    };
+
+    // Google polylines have no dash pattern - emulate it with repeated symbols
+    if (transport === 'Walking' || transport === 'Cycling') {
+      const [dash, gap] = transport === 'Walking' ? ROUTE_WALKING_DASH : ROUTE_CYCLING_DASH;
+      options.strokeOpacity = 0;
+      options.icons = [{
+        icon: {
+          path: transport === 'Walking' ? google.maps.SymbolPath.CIRCLE : `M 0,0 0,${dash}`,
+          scale: transport === 'Walking' ? ROUTE_LINE_WIDTH / 2 : 1,
+          strokeColor: ROUTE_STROKE_COLOR,
+          strokeOpacity: ROUTE_STROKE_OPACITY,
+          strokeWeight: ROUTE_LINE_WIDTH,
+          fillColor: ROUTE_STROKE_COLOR,
+          fillOpacity: ROUTE_STROKE_OPACITY,
+        },
+        offset: '0',
+        repeat: `${dash + gap}px`,
+      }];
+    }
+
+    this.routePolyline = new google.maps.Polyline(options);
+  }
+
+  clearRoute(): void {
+    if (this.routePolyline) {
+      this.routePolyline.setMap(null);
+      this.routePolyline = null;
+    }
+  }
+
+  async getDirections(from: LatLng, to: LatLng): Promise<RouteInfo> {
+    return new Promise((resolve, reject) => {
+      const directions = new google.maps.DirectionsService();
+
+      const request = {
+        origin: { lat: from.lat, lng: from.lng },
+        destination: { lat: to.lat, lng: to.lng },
+        travelMode: google.maps.TravelMode.DRIVING,
+      };
+
+      directions.route(request, (response: any, status: string) => {
+        if (status !== google.maps.DirectionsStatus.OK || !response?.routes?.length) {
+          reject(new Error(`Failed to get directions: ${status}`));
+          return;
+        }
+
+        const route = response.routes[0];
+
+        let distance = 0;
+        let duration = 0;
+        for (const leg of route.legs ?? []) {
+          distance += leg.distance?.value ?? 0; // meters
+          duration += leg.duration?.value ?? 0; // seconds
+        }
+
+        const polylinePoints: LatLng[] = (route.overview_path ?? []).map((p: any) => ({
+          lat: p.lat(),
+          lng: p.lng(),
+        }));
+
+        resolve({ distance, duration, polylinePoints });
+      });
+    });
+  }
+
+  private async startLocationTracking(): Promise<void> {
+    if (!navigator.geolocation) return;
+
+    // Get fast network-based position first, but don't block startup on it
+    await Promise.race([
+      this.getFreshLocation(GEOLOCATION_FAST_TIMEOUT_MS),
+      new Promise<void>((resolve) => setTimeout(resolve, GEOLOCATION_FAST_TIMEOUT_MS)),
+    ]);
+
+    // Watch for position updates (will refine with GPS over time)
+    this.locationWatchId = navigator.geolocation.watchPosition(
+      (position) => {
+        this.cachedUserLocation = {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        };
+      },
+      () => {}, // Ignore errors for background tracking
+      { enableHighAccuracy: true, maximumAge: GEOLOCATION_WATCH_MAX_AGE_MS, timeout: GEOLOCATION_WATCH_TIMEOUT_MS }
+    );
+  }
+
+  private stopLocationTracking(): void {
+    if (this.locationWatchId !== null) {
+      navigator.geolocation.clearWatch(this.locationWatchId);
+      this.locationWatchId = null;
+    }
+  }
+
+  async centerOnUserLocation(zoom?: number, rotation?: number): Promise<void> {
+    if (!this.map) return;
+
+    const location = this.cachedUserLocation ?? await this.getFreshLocation(GEOLOCATION_FALLBACK_TIMEOUT_MS);
+    if (!location || !this.map) return;
+
+    this.animateTo(location.lat, location.lng, zoom ?? this.getZoom(), rotation ?? this.getRotation());
+  }
+
+  private getFreshLocation(timeout: number): Promise<LatLng | null> {
+    return new Promise((resolve) => {
+      if (!navigator.geolocation) {
+        resolve(null);
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          this.cachedUserLocation = {
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+          };
+          resolve(this.cachedUserLocation);
+        },
+        (error) => {
+          console.warn('Geolocation error:', error.message);
+          resolve(null);
+        },
+        { enableHighAccuracy: false, maximumAge: 0, timeout }
+      );
+    });
+  }
+
+  private animateTo(lat: number, lng: number, zoom: number, rotation: number): void {
+    if (!this.map) return;
+
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+
+    const startCenter = this.getCenter();
+    const startZoom = this.getZoom();
+    const startRotation = this.getRotation();
+    const targetZoom = this.clampZoom(zoom);
+
+    // Shortest path for rotation (e.g. 350° -> 10° should go through 0°)
+    let deltaRotation = rotation - startRotation;
+    if (deltaRotation > 180) deltaRotation -= 360;
+    if (deltaRotation < -180) deltaRotation += 360;
+
+    // Shortest path for longitude too (across the antimeridian if that's closer)
+    const deltaLng = wrapLongitude(lng - startCenter.lng);
+
+    const startTime = performance.now();
+
+    const step = (now: number) => {
+      if (!this.map) return;
+
+      const elapsed = now - startTime;
+      const t = Math.min(elapsed / ANIMATE_TO_DURATION_MS, 1);
+      // Ease-out cubic
+      const ease = 1 - Math.pow(1 - t, 3);
+
+      this.camera.change('animation', () => {
+        this.map.moveCamera({
+          center: {
+            lat: startCenter.lat + (lat - startCenter.lat) * ease,
+            lng: wrapLongitude(startCenter.lng + deltaLng * ease),
+          },
+          zoom: startZoom + (targetZoom - startZoom) * ease,
+          heading: -(startRotation + deltaRotation * ease),
+        });
+      });
+
+      this.animationId = t < 1 ? requestAnimationFrame(step) : null;
+    };
+
+    this.animationId = requestAnimationFrame(step);
+  }
+
+  on(type: CameraEventType, listener: CameraListener): () => void {
+    return this.camera.on(type, listener);
+  }
+
+  off(type: CameraEventType, listener: CameraListener): void {
+    this.camera.off(type, listener);
+  }
+
+  beginGesture(): void {
+    this.camera.beginGesture();
+  }
+
+  endGesture(): void {
+    this.camera.endGesture();
+  }
+
+  private getCameraState(): CameraState {
+    return {
+      center: this.getCenter(),
+      zoom: this.getZoom(),
+      rotation: this.getRotation(),
+      bounds: this.getBounds(),
+    };
+  }
+
+  destroy(): void {
+    this.camera.destroy();
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+    this.stopLocationTracking();
+    this.clearMarkers();
+    this.clearRoute();
+    if (this.map) {
+      google.maps.event.clearInstanceListeners(this.map);
+      this.map = null;
+    }
+    if (this.container) {
+      this.container.innerHTML = '';
+    }
+    this.container = null;
+  }
+}
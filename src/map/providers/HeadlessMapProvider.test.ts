@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessMapProvider } from './HeadlessMapProvider';
+
+function provider(rotation = 0): HeadlessMapProvider {
+  const map = new HeadlessMapProvider(400, 800);
+  map.setCenterAndZoom(48.8566, 2.3522, 12, false);
+  map.setRotation(rotation, false);
+  return map;
+}
+
+describe('HeadlessMapProvider', () => {
+  it('round-trips screen points through coordinates', () => {
+    const map = provider(35);
+    for (const [x, y] of [[0, 0], [200, 400], [399, 17], [123.5, 790]]) {
+      const coord = map.screenToCoordinate(x, y);
+      const screen = map.coordinateToScreen(coord.lat, coord.lng);
+      expect(screen.x).toBeCloseTo(x, 6);
+      expect(screen.y).toBeCloseTo(y, 6);
+    }
+  });
+
+  it('keeps the coordinate under the zoom point anchored', () => {
+    for (const rotation of [0, 60, 245]) {
+      const map = provider(rotation);
+      const anchor = map.screenToCoordinate(80, 650);
+
+      map.zoomAtPoint(80, 650, 1.7);
+      map.zoomAtPoint(80, 650, -0.4);
+
+      expect(map.getZoom()).toBeCloseTo(13.3, 9);
+      const screen = map.coordinateToScreen(anchor.lat, anchor.lng);
+      expect(screen.x).toBeCloseTo(80, 6);
+      expect(screen.y).toBeCloseTo(650, 6);
+    }
+  });
+
+  it('pans by exact screen pixels', () => {
+    const map = provider(90);
+    const coord = map.screenToCoordinate(100, 100);
+    map.panBy(30, -20);
+    const screen = map.coordinateToScreen(coord.lat, coord.lng);
+    expect(screen.x).toBeCloseTo(70, 6);
+    expect(screen.y).toBeCloseTo(120, 6);
+  });
+
+  it('covers every longitude when the viewport is wider than the world', () => {
+    const map = new HeadlessMapProvider(1600, 800);
+    map.setCenterAndZoom(10, 30, 1, false);
+    const bounds = map.getBounds();
+    expect(bounds.west).toBe(-180);
+    expect(bounds.east).toBe(180);
+  });
+
+  it('gives west > east for a viewport straddling the antimeridian', () => {
+    const map = new HeadlessMapProvider(400, 800);
+    map.setCenterAndZoom(0, 179, 6, false);
+    const bounds = map.getBounds();
+    const span = 400 / (256 * 2 ** 6) * 360;
+    expect(bounds.west).toBeCloseTo(179 - span / 2, 9);
+    expect(bounds.east).toBeCloseTo(179 + span / 2 - 360, 9);
+  });
+
+  it('widens the bounds to cover a rotated viewport', () => {
+    const map = provider(90);
+    const bounds = map.getBounds();
+    const span = 800 / (256 * 2 ** 12) * 360;
+    expect(bounds.east - bounds.west).toBeCloseTo(span, 9);
+    for (const [x, y] of [[0, 0], [400, 0], [400, 800], [0, 800]]) {
+      const corner = map.screenToCoordinate(x, y);
+      expect(corner.lat).toBeLessThanOrEqual(bounds.north + 1e-9);
+      expect(corner.lat).toBeGreaterThanOrEqual(bounds.south - 1e-9);
+    }
+  });
+
+  it('pans across the antimeridian', () => {
+    const map = new HeadlessMapProvider(400, 800);
+    map.setCenterAndZoom(0, 179.9, 10, false);
+    map.panBy(1000, 0);
+    const center = map.getCenter();
+    expect(center.lng).toBeLessThan(0);
+    expect(center.lng).toBeGreaterThan(-180);
+  });
+});
@@ -0,0 +1,312 @@
+import {
+  MapProvider,
+  MapOptions,
+  LatLng,
+  MapBounds,
+  MapMarker,
+  RouteInfo,
+  ScreenPoint,
+  CameraOptions,
+  CameraState,
+  CameraEventType,
+  CameraChangeSource,
+  CameraListener,
+} from '../types';
+import { CameraEventEmitter } from '../CameraEventEmitter';
+import { boundsFromViewportCorners, viewportLongitudeSpan } from '../bounds';
+import { UnsupportedCapabilityError } from '../errors';
+import {
+  project,
+  unproject,
+  screenOffsetToWorld,
+  worldOffsetToScreen,
+  wrapLongitude,
+  panCenter,
+} from '../mercator';
+import { ZOOM_MIN_LEVEL, ZOOM_MAX_LEVEL } from '../../control';
+
+// Non-tunable constants (geometric/physical constants and epsilons)
+const HEADLESS_LAT_CLAMP_MIN = -85;      // Web Mercator latitude minimum
+const HEADLESS_LAT_CLAMP_MAX = 85;       // Web Mercator latitude maximum
+const DEFAULT_VIEWPORT_WIDTH = 390;      // Phone-sized viewport when no container size is known
+const DEFAULT_VIEWPORT_HEIGHT = 844;
+
+/**
+ * HeadlessMapProvider - In-memory MapProvider with exact Web Mercator math.
+ *
+ * Keeps center, zoom, rotation and viewport size as plain numbers and renders
+ * nothing, so gestures can be driven with synthetic pointer events under
+ * Node/jsdom and the resulting camera asserted deterministically.
+ *
+ * Screen points are in pixels relative to the viewport's top-left corner.
+ * Animated setters apply immediately (but are still reported as 'animation').
+ */
+export class HeadlessMapProvider implements MapProvider {
+  private center: LatLng = { lat: 0, lng: 0 };
+  private zoom = 0;
+  private rotation = 0;
+  private width: number;
+  private height: number;
+  private markers: MapMarker[] = [];
+  private markerSelectCallback: ((marker: MapMarker) => void) | null = null;
+  private poiFilter: string[] | null = null;
+  private route: LatLng[] | null = null;
+  private userLocation: LatLng | null = null;
+  private nativeInteractionsEnabled = false;
+  private camera = new CameraEventEmitter(() => this.getCameraState());
+
+  constructor(width = DEFAULT_VIEWPORT_WIDTH, height = DEFAULT_VIEWPORT_HEIGHT) {
+    this.width = width;
+    this.height = height;
+  }
+
+  async init(container: HTMLElement, options: MapOptions): Promise<void> {
+    // Adopt the container size when layout gives us one (jsdom reports 0)
+    if (container.clientWidth > 0 && container.clientHeight > 0) {
+      this.setViewportSize(container.clientWidth, container.clientHeight);
+    }
+    this.setCenterAndZoom(options.center.lat, options.center.lng, options.zoom, false);
+    this.setRotation(options.rotation ?? 0, false);
+  }
+
+  setViewportSize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+  }
+
+  getViewportSize(): { width: number; height: number } {
+    return { width: this.width, height: this.height };
+  }
+
+  setCenter(lat: number, lng: number, animated = true): void {
+    this.camera.change(this.sourceFor(animated), () => {
+      this.center = {
+        lat: Math.max(HEADLESS_LAT_CLAMP_MIN, Math.min(HEADLESS_LAT_CLAMP_MAX, lat)),
+        lng: wrapLongitude(lng),
+      };
+    });
+  }
+
+  getCenter(): LatLng {
+    return { ...this.center };
+  }
+
+  setZoom(level: number, animated = true): void {
+    this.camera.change(this.sourceFor(animated), () => {
+      this.zoom = Math.max(ZOOM_MIN_LEVEL, Math.min(ZOOM_MAX_LEVEL, level));
+    });
+  }
+
+  getZoom(): number {
+    return this.zoom;
+  }
+
+  setCenterAndZoom(lat: number, lng: number, zoom: number, animated = true): void {
+    this.setCamera({ center: { lat, lng }, zoom }, animated);
+  }
+
+  setRotation(degrees: number, animated = true): void {
+    this.camera.change(this.sourceFor(animated), () => {
+      this.rotation = ((degrees % 360) + 360) % 360;
+    });
+  }
+
+  getRotation(): number {
+    return this.rotation;
+  }
+
+  setCamera(camera: CameraOptions, animated = true): void {
+    this.camera.change(this.sourceFor(animated), () => {
+      if (camera.zoom !== undefined) this.setZoom(camera.zoom, animated);
+      if (camera.center) this.setCenter(camera.center.lat, camera.center.lng, animated);
+      if (camera.rotation !== undefined) this.setRotation(camera.rotation, animated);
+    });
+  }
+
+  panBy(dx: number, dy: number): void {
+    this.camera.change('gesture', () => {
+      const newCenter = panCenter(this.center, dx, dy, this.zoom, this.rotation, HEADLESS_LAT_CLAMP_MAX);
+      this.setCenter(newCenter.lat, newCenter.lng, false);
+    });
+  }
+
+  zoomAtPoint(x: number, y: number, zoomDelta: number): void {
+    this.camera.change('gesture', () => {
+      // Remember the geographic coordinate under the cursor BEFORE zoom
+      const target = this.screenToCoordinate(x, y);
+
+      this.setZoom(this.zoom + zoomDelta, false);
+
+      // Pan so that the target coordinate is back under the cursor
+      const targetScreen = this.coordinateToScreen(target.lat, target.lng);
+      this.panBy(targetScreen.x - x, targetScreen.y - y);
+    });
+  }
+
+  /**
+   * Convert a viewport-relative screen point to a geographic coordinate.
+   */
+  screenToCoordinate(x: number, y: number): LatLng {
+    const centerWorld = project(this.center.lat, this.center.lng, this.zoom);
+    const offset = screenOffsetToWorld(x - this.width / 2, y - this.height / 2, this.rotation);
+    const coord = unproject(centerWorld.x + offset.x, centerWorld.y + offset.y, this.zoom);
+    return { lat: coord.lat, lng: wrapLongitude(coord.lng) };
+  }
+
+  /**
+   * Convert a geographic coordinate to a viewport-relative screen point.
+   * Takes the shortest way around the antimeridian from the current center.
+   */
+  coordinateToScreen(lat: number, lng: number): ScreenPoint {
+    const unwrappedLng = this.center.lng + wrapLongitude(lng - this.center.lng);
+    const centerWorld = project(this.center.lat, this.center.lng, this.zoom);
+    const pointWorld = project(lat, unwrappedLng, this.zoom);
+    const offset = worldOffsetToScreen(
+      pointWorld.x - centerWorld.x,
+      pointWorld.y - centerWorld.y,
+      this.rotation
+    );
+    return { x: this.width / 2 + offset.x, y: this.height / 2 + offset.y };
+  }
+
+  placeCoordinateAtScreenPoint(coord: LatLng, x: number, y: number): void {
+    const current = this.coordinateToScreen(coord.lat, coord.lng);
+    this.panBy(current.x - x, current.y - y);
+  }
+
+  getBounds(): MapBounds {
+    // Bounding box of the four (possibly rotated) viewport corners
+    return boundsFromViewportCorners(
+      [
+        this.screenToCoordinate(0, 0),
+        this.screenToCoordinate(this.width, 0),
+        this.screenToCoordinate(this.width, this.height),
+        this.screenToCoordinate(0, this.height),
+      ],
+      this.center,
+      viewportLongitudeSpan(this.width, this.height, this.zoom, this.rotation)
+    );
+  }
+
+  setNativeInteractionsEnabled(enabled: boolean): void {
+    this.nativeInteractionsEnabled = enabled;
+  }
+
+  getNativeInteractionsEnabled(): boolean {
+    return this.nativeInteractionsEnabled;
+  }
+
+  addMarkers(markers: MapMarker[]): void {
+    this.markers.push(...markers);
+  }
+
+  clearMarkers(): void {
+    this.markers = [];
+  }
+
+  getMarkers(): MapMarker[] {
+    return [...this.markers];
+  }
+
+  onMarkerSelect(callback: (marker: MapMarker) => void): void {
+    this.markerSelectCallback = callback;
+  }
+
+  /**
+   * Simulate the user selecting a marker (tests have no DOM to click).
+   */
+  selectMarker(id: string): void {
+    const marker = this.markers.find((m) => m.id === id);
+    if (marker && this.markerSelectCallback) {
+      this.markerSelectCallback(marker);
+    }
+  }
+
+  filterPOIByCategories(categories: string[]): void {
+    this.poiFilter = [...categories];
+  }
+
+  clearPOIFilter(): void {
+    this.poiFilter = null;
+  }
+
+  getPOIFilter(): string[] | null {
+    return this.poiFilter ? [...this.poiFilter] : null;
+  }
+
+  async searchPOIsInView(_categories: string[], _maxResults: number): Promise<MapMarker[]> {
+    throw new UnsupportedCapabilityError('poiSearch', 'headless');
+  }
+
+  showRoute(points: LatLng[]): void {
+    if (points.length < 2) return;
+    this.route = [...points];
+  }
+
+  clearRoute(): void {
+    this.route = null;
+  }
+
+  getRoute(): LatLng[] | null {
+    return this.route ? [...this.route] : null;
+  }
+
+  async getDirections(_from: LatLng, _to: LatLng): Promise<RouteInfo> {
+    throw new UnsupportedCapabilityError('directions', 'headless');
+  }
+
+  /**
+   * Set the location centerOnUserLocation() moves to (there is no geolocation).
+   */
+  setUserLocation(location: LatLng | null): void {
+    this.userLocation = location;
+  }
+
+  async centerOnUserLocation(zoom?: number, rotation?: number): Promise<void> {
+    if (!this.userLocation) return;
+    const location = this.userLocation;
+    this.camera.change('animation', () => {
+      this.setCenterAndZoom(location.lat, location.lng, zoom ?? this.zoom, false);
+      if (rotation !== undefined) {
+        this.setRotation(rotation, false);
+      }
+    });
+  }
+
+  on(type: CameraEventType, listener: CameraListener): () => void {
+    return this.camera.on(type, listener);
+  }
+
+  off(type: CameraEventType, listener: CameraListener): void {
+    this.camera.off(type, listener);
+  }
+
+  beginGesture(): void {
+    this.camera.beginGesture();
+  }
+
+  endGesture(): void {
+    this.camera.endGesture();
+  }
+
+  private sourceFor(animated: boolean): CameraChangeSource {
+    return animated ? 'animation' : 'programmatic';
+  }
+
+  private getCameraState(): CameraState {
+    return {
+      center: this.getCenter(),
+      zoom: this.zoom,
+      rotation: this.rotation,
+      bounds: this.getBounds(),
+    };
+  }
+
+  destroy(): void {
+    this.camera.destroy();
+    this.markers = [];
+    this.markerSelectCallback = null;
+    this.route = null;
+    this.poiFilter = null;
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { TileMapProvider } from './TileMapProvider';
+import { UnsupportedCapabilityError } from '../errors';
+
+describe('TileMapProvider', () => {
+  it('rejects POI search as unsupported', async () => {
+    const map = new TileMapProvider();
+    await expect(map.searchPOIsInView(['Cafe'], 5)).rejects.toBeInstanceOf(UnsupportedCapabilityError);
+    await expect(map.searchPOIsInView(['Cafe'], 5)).rejects.toMatchObject({ capability: 'poiSearch', provider: 'tiles' });
+  });
+
+  it('rejects directions as unsupported', async () => {
+    const map = new TileMapProvider();
+    const request = map.getDirections({ lat: 48.85, lng: 2.35 }, { lat: 48.86, lng: 2.29 });
+    await expect(request).rejects.toBeInstanceOf(UnsupportedCapabilityError);
+    await expect(request).rejects.toMatchObject({ capability: 'directions', provider: 'tiles' });
+  });
+});
@@ -0,0 +1,495 @@
+import type { Map as MapLibreMap, Marker as MapLibreMarker, StyleSpecification } from 'maplibre-gl';
+import {
+  MapProvider,
+  MapOptions,
+  LatLng,
+  MapBounds,
+  MapMarker,
+  RouteInfo,
+  ScreenPoint,
+  CameraOptions,
+  CameraState,
+  CameraEventType,
+  CameraListener,
+} from '../types';
+import { CameraEventEmitter } from '../CameraEventEmitter';
+import { boundsFromViewportCorners, viewportLongitudeSpan } from '../bounds';
+import { UnsupportedCapabilityError } from '../errors';
+import { config } from '../../config';
+import {
+  ZOOM_MIN_LEVEL,
+  ZOOM_MAX_LEVEL,
+  GEOLOCATION_FAST_TIMEOUT_MS,
+  GEOLOCATION_FALLBACK_TIMEOUT_MS,
+  GEOLOCATION_WATCH_MAX_AGE_MS,
+  GEOLOCATION_WATCH_TIMEOUT_MS,
+  ROUTE_LINE_WIDTH,
+  ROUTE_STROKE_COLOR,
+  ROUTE_STROKE_OPACITY,
+  ROUTE_WALKING_DASH,
+  ROUTE_CYCLING_DASH,
+  MARKER_COLOR,
+} from '../../control';
+
+// Non-tunable constants (geometric/physical constants and epsilons)
+const MAPLIBRE_ZOOM_OFFSET = 1;          // MapLibre zoom z uses 512px tiles = 256px-tile zoom z + 1
+const TILE_LAT_CLAMP_MIN = -85;          // Web Mercator latitude minimum
+const TILE_LAT_CLAMP_MAX = 85;           // Web Mercator latitude maximum
+const RASTER_TILE_SIZE = 256;            // Pixel size of raster XYZ tiles
+const ANIMATE_TO_DURATION_MS = 1000;     // Duration for combined center/zoom/rotation animation
+const ROUTE_SOURCE_ID = 'whirl-route';
+const ROUTE_LAYER_ID = 'whirl-route-line';
+
+/**
+ * TileMapProvider - MapProvider that renders XYZ tiles with MapLibre GL.
+ *
+ * Tiles come from config.tiles: either a raster/vector URL template (a local
+ * tile server, or one serving a folder of MBTiles) or a complete MapLibre
+ * style. No API token is needed and nothing is fetched from the network
+ * beyond those URLs, so it can run fully offline.
+ *
+ * Tiles carry no routing or place data: getDirections and searchPOIsInView
+ * reject with UnsupportedCapabilityError, and POI filtering is a no-op.
+ */
+export class TileMapProvider implements MapProvider {
+  private maplibre: typeof import('maplibre-gl') | null = null;
+  private map: MapLibreMap | null = null;
+  private container: HTMLElement | null = null;
+  private markers: MapLibreMarker[] = [];
+  private markerSelectCallback: ((marker: MapMarker) => void) | null = null;
+  private cachedUserLocation: LatLng | null = null;
+  private locationWatchId: number | null = null;
+  private camera = new CameraEventEmitter(() => this.getCameraState());
+
+  async init(container: HTMLElement, options: MapOptions): Promise<void> {
+    this.container = container;
+
+    const style = this.buildStyle();
+
+    // Load MapLibre lazily so the other providers don't pay for it
+    const maplibre = await import('maplibre-gl');
+    await import('maplibre-gl/dist/maplibre-gl.css');
+    this.maplibre = maplibre;
+
+    const map = new maplibre.Map({
+      container,
+      style,
+      center: [options.center.lng, options.center.lat],
+      zoom: options.zoom - MAPLIBRE_ZOOM_OFFSET,
+      bearing: -(options.rotation ?? 0),
+      minZoom: ZOOM_MIN_LEVEL - MAPLIBRE_ZOOM_OFFSET,
+      maxZoom: ZOOM_MAX_LEVEL - MAPLIBRE_ZOOM_OFFSET,
+      attributionControl: config.tiles.attribution ? { compact: true } : false,
+      // Custom gestures are handled by the interaction layer
+      interactive: true,
+      dragPan: false,
+      keyboard: false,
+      doubleClickZoom: false,
+    });
+    this.map = map;
+
+    // MapLibre reports every frame of its own animations and native gestures;
+    // moves made synchronously inside camera.change() are already reported
+    map.on('move', (e: any) => {
+      this.camera.notifyNative(e.originalEvent ? 'gesture' : 'animation');
+    });
+
+    // Only a style that fails to load is fatal; tile and sprite errors
+    // (which can arrive before 'load') are logged and the map carries on
+    await new Promise<void>((resolve, reject) => {
+      let styleLoaded = false;
+      map.once('style.load', () => {
+        styleLoaded = true;
+      });
+      map.once('load', () => resolve());
+      map.on('error', (e: any) => {
+        if (!styleLoaded) {
+          reject(e.error ?? new Error('Failed to load tile style'));
+          return;
+        }
+        console.warn('Map error:', e.error ?? e);
+      });
+    });
+
+    // Start watching user location (wait for initial position)
+    await this.startLocationTracking();
+  }
+
+  private buildStyle(): string | StyleSpecification {
+    const { url, type, styleUrl, attribution } = config.tiles;
+    if (styleUrl) return styleUrl;
+    if (!url) {
+      throw new Error('Tile source not configured. Set VITE_TILE_URL or VITE_TILE_STYLE_URL in .env');
+    }
+
+    if (type === 'raster') {
+      return {
+        version: 8,
+        sources: {
+          tiles: { type: 'raster', tiles: [url], tileSize: RASTER_TILE_SIZE, attribution },
+        },
+        layers: [{ id: 'tiles', type: 'raster', source: 'tiles' }],
+      };
+    }
+
+    // Minimal unlabeled style for OpenMapTiles-schema vector tiles
+    // (labels would need glyphs, which an offline tile server may not provide)
+    return {
+      version: 8,
+      sources: {
+        tiles: { type: 'vector', tiles: [url], attribution },
+      },
+      layers: [
+        { id: 'background', type: 'background', paint: { 'background-color': '#f2efe9' } },
+        { id: 'landcover', type: 'fill', source: 'tiles', 'source-layer': 'landcover', paint: { 'fill-color': '#d8e8c8' } },
+        { id: 'park', type: 'fill', source: 'tiles', 'source-layer': 'park', paint: { 'fill-color': '#c8e6b0' } },
+        { id: 'water', type: 'fill', source: 'tiles', 'source-layer': 'water', paint: { 'fill-color': '#a0c8f0' } },
+        { id: 'building', type: 'fill', source: 'tiles', 'source-layer': 'building', paint: { 'fill-color': '#ddd6cc' } },
+        { id: 'transportation', type: 'line', source: 'tiles', 'source-layer': 'transportation', paint: { 'line-color': '#ffffff', 'line-width': 1.5 } },
+        { id: 'boundary', type: 'line', source: 'tiles', 'source-layer': 'boundary', paint: { 'line-color': '#9e9cab', 'line-dasharray': [3, 2] } },
+      ],
+    };
+  }
+
+  setCenter(lat: number, lng: number, animated = true): void {
+    if (!this.map) return;
+    if (animated) {
+      this.map.easeTo({ center: [lng, lat] });
+    } else {
+      this.camera.change('programmatic', () => this.map?.jumpTo({ center: [lng, lat] }));
+    }
+  }
+
+  getCenter(): LatLng {
+    if (!this.map) return { lat: 0, lng: 0 };
+    const center = this.map.getCenter();
+    return { lat: center.lat, lng: center.lng };
+  }
+
+  setZoom(level: number, animated = true): void {
+    if (!this.map) return;
+    const zoom = level - MAPLIBRE_ZOOM_OFFSET;
+    if (animated) {
+      this.map.easeTo({ zoom, duration: ANIMATE_TO_DURATION_MS });
+    } else {
+      this.camera.change('programmatic', () => this.map?.jumpTo({ zoom }));
+    }
+  }
+
+  getZoom(): number {
+    if (!this.map) return 0;
+    return this.map.getZoom() + MAPLIBRE_ZOOM_OFFSET;
+  }
+
+  setCenterAndZoom(lat: number, lng: number, zoom: number, animated = true): void {
+    this.setCamera({ center: { lat, lng }, zoom }, animated);
+  }
+
+  setRotation(degrees: number, animated = true): void {
+    if (!this.map) return;
+    if (animated) {
+      this.map.rotateTo(-degrees);
+    } else {
+      this.camera.change('programmatic', () => this.map?.setBearing(-degrees));
+    }
+  }
+
+  getRotation(): number {
+    if (!this.map) return 0;
+    // MapLibre bearing is the compass direction at the top of the screen,
+    // the inverse of MapKit's clockwise map rotation
+    return ((-this.map.getBearing() % 360) + 360) % 360;
+  }
+
+  /**
+   * Move center, zoom and rotation together in a single jumpTo/easeTo call.
+   */
+  setCamera(camera: CameraOptions, animated = true): void {
+    if (!this.map) return;
+    const options = {
+      ...(camera.center && { center: [camera.center.lng, camera.center.lat] as [number, number] }),
+      ...(camera.zoom !== undefined && { zoom: camera.zoom - MAPLIBRE_ZOOM_OFFSET }),
+      ...(camera.rotation !== undefined && { bearing: -camera.rotation }),
+    };
+    if (animated) {
+      this.map.easeTo({ ...options, duration: ANIMATE_TO_DURATION_MS });
+    } else {
+      this.camera.change('programmatic', () => this.map?.jumpTo(options));
+    }
+  }
+
+  panBy(dx: number, dy: number): void {
+    if (!this.map) return;
+    this.camera.change('gesture', () => this.applyPan(dx, dy));
+  }
+
+  private applyPan(dx: number, dy: number): void {
+    if (!this.map) return;
+    // MapLibre pans in screen pixels and accounts for bearing itself
+    this.map.panBy([dx, dy], { duration: 0 });
+
+    // Clamp latitude to Web Mercator limits
+    const center = this.map.getCenter();
+    if (center.lat < TILE_LAT_CLAMP_MIN || center.lat > TILE_LAT_CLAMP_MAX) {
+      const lat = Math.max(TILE_LAT_CLAMP_MIN, Math.min(TILE_LAT_CLAMP_MAX, center.lat));
+      this.map.jumpTo({ center: [center.wrap().lng, lat] });
+    }
+  }
+
+  zoomAtPoint(x: number, y: number, zoomDelta: number): void {
+    if (!this.map) return;
+
+    // Zoom around the geographic coordinate under the cursor
+    const around = this.map.unproject([x, y]);
+    const zoom = Math.max(ZOOM_MIN_LEVEL, Math.min(ZOOM_MAX_LEVEL, this.getZoom() + zoomDelta));
+    this.camera.change('gesture', () => {
+      this.map?.easeTo({ zoom: zoom - MAPLIBRE_ZOOM_OFFSET, around, duration: 0 });
+    });
+  }
+
+  screenToCoordinate(x: number, y: number): LatLng {
+    if (!this.map) return { lat: 0, lng: 0 };
+    const coord = this.map.unproject([x, y]);
+    return { lat: coord.lat, lng: coord.lng };
+  }
+
+  coordinateToScreen(lat: number, lng: number): ScreenPoint {
+    if (!this.map) return { x: 0, y: 0 };
+    const point = this.map.project([lng, lat]);
+    return { x: point.x, y: point.y };
+  }
+
+  placeCoordinateAtScreenPoint(coord: LatLng, x: number, y: number): void {
+    if (!this.map) return;
+    const current = this.coordinateToScreen(coord.lat, coord.lng);
+    this.camera.change('gesture', () => this.applyPan(current.x - x, current.y - y));
+  }
+
+  getBounds(): MapBounds {
+    if (!this.map || !this.container) return { north: 0, south: 0, east: 0, west: 0 };
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+    // A rotated map shows more than its axis-aligned span - cover all four corners
+    return boundsFromViewportCorners(
+      [
+        this.screenToCoordinate(0, 0),
+        this.screenToCoordinate(width, 0),
+        this.screenToCoordinate(width, height),
+        this.screenToCoordinate(0, height),
+      ],
+      this.getCenter(),
+      viewportLongitudeSpan(width, height, this.getZoom(), this.getRotation())
+    );
+  }
+
+  setNativeInteractionsEnabled(enabled: boolean): void {
+    if (!this.map) return;
+    // Only toggle drag pan - zoom and rotate stay enabled for native handling
+    if (enabled) {
+      this.map.dragPan.enable();
+    } else {
+      this.map.dragPan.disable();
+    }
+  }
+
+  addMarkers(markers: MapMarker[]): void {
+    if (!this.map || !this.maplibre) return;
+
+    for (const marker of markers) {
+      const mapLibreMarker = new this.maplibre.Marker({ color: MARKER_COLOR })
+        .setLngLat([marker.lng, marker.lat])
+        .addTo(this.map);
+
+      const element = mapLibreMarker.getElement();
+      element.title = marker.title;
+      element.addEventListener('click', () => {
+        if (this.markerSelectCallback) {
+          this.markerSelectCallback(marker);
+        }
+      });
+
+      this.markers.push(mapLibreMarker);
+    }
+  }
+
+  clearMarkers(): void {
+    for (const marker of this.markers) {
+      marker.remove();
+    }
+    this.markers = [];
+  }
+
+  onMarkerSelect(callback: (marker: MapMarker) => void): void {
+    this.markerSelectCallback = callback;
+  }
+
+  filterPOIByCategories(_categories: string[]): void {
+    // Tiles carry no POI category data - nothing to filter
+  }
+
+  clearPOIFilter(): void {
+    // Tiles carry no POI category data - nothing to filter
+  }
+
+  async searchPOIsInView(_categories: string[], _maxResults: number): Promise<MapMarker[]> {
+    throw new UnsupportedCapabilityError('poiSearch', 'tiles');
+  }
+
+  showRoute(points: LatLng[], transport: string = 'Automobile'): void {
+    if (!this.map || points.length < 2) return;
+
+    // Clear any existing route
+    this.clearRoute();
+
+    this.map.addSource(ROUTE_SOURCE_ID, {
+      type: 'geojson',
+      data: {
+        type: 'Feature',
+        properties: {},
+        geometry: {
+          type: 'LineString',
+          coordinates: points.map((p) => [p.lng, p.lat]),
+        },
+      },
+    });
+
+    // MapLibre dash lengths are in units of line width
+    const paint: Record<string, any> = {
+      'line-color': ROUTE_STROKE_COLOR,
+      'line-opacity': ROUTE_STROKE_OPACITY,
+      'line-width': ROUTE_LINE_WIDTH,
+    };
+    if (transport === 'Walking') {
+      paint['line-dasharray'] = ROUTE_WALKING_DASH.map((v) => v / ROUTE_LINE_WIDTH);
+    } else if (transport === 'Cycling') {
+      paint['line-dasharray'] = ROUTE_CYCLING_DASH.map((v) => v / ROUTE_LINE_WIDTH);
+    }
+
+    this.map.addLayer({
+      id: ROUTE_LAYER_ID,
+      type: 'line',
+      source: ROUTE_SOURCE_ID,
+      layout: {
+        'line-cap': transport === 'Automobile' ? 'butt' : 'round',
+        'line-join': 'round',
+      },
+      paint,
+    });
+  }
+
+  clearRoute(): void {
+    if (!this.map) return;
+    if (this.map.getLayer(ROUTE_LAYER_ID)) {
+      this.map.removeLayer(ROUTE_LAYER_ID);
+    }
+    if (this.map.getSource(ROUTE_SOURCE_ID)) {
+      this.map.removeSource(ROUTE_SOURCE_ID);
+    }
+  }
+
+  async getDirections(_from: LatLng, _to: LatLng): Promise<RouteInfo> {
+    throw new UnsupportedCapabilityError('directions', 'tiles');
+  }
+
+  private async startLocationTracking(): Promise<void> {
+    if (!navigator.geolocation) return;
+
+    // Get fast network-based position first, but don't block startup on it
+    await Promise.race([
+      this.getFreshLocation(GEOLOCATION_FAST_TIMEOUT_MS),
+      new Promise<void>((resolve) => setTimeout(resolve, GEOLOCATION_FAST_TIMEOUT_MS)),
+    ]);
+
+    // Watch for position updates (will refine with GPS over time)
+    this.locationWatchId = navigator.geolocation.watchPosition(
+      (position) => {
+        this.cachedUserLocation = {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        };
+      },
+      () => {}, // Ignore errors for background tracking
+      { enableHighAccuracy: true, maximumAge: GEOLOCATION_WATCH_MAX_AGE_MS, timeout: GEOLOCATION_WATCH_TIMEOUT_MS }
+    );
+  }
+
+  private stopLocationTracking(): void {
+    if (this.locationWatchId !== null) {
+      navigator.geolocation.clearWatch(this.locationWatchId);
+      this.locationWatchId = null;
+    }
+  }
+
+  async centerOnUserLocation(zoom?: number, rotation?: number): Promise<void> {
+    if (!this.map) return;
+
+    const location = this.cachedUserLocation ?? await this.getFreshLocation(GEOLOCATION_FALLBACK_TIMEOUT_MS);
+    if (!location || !this.map) return;
+
+    this.map.easeTo({
+      center: [location.lng, location.lat],
+      zoom: (zoom ?? this.getZoom()) - MAPLIBRE_ZOOM_OFFSET,
+      bearing: -(rotation ?? this.getRotation()),
+      duration: ANIMATE_TO_DURATION_MS,
+    });
+  }
+
+  private getFreshLocation(timeout: number): Promise<LatLng | null> {
+    return new Promise((resolve) => {
+      if (!navigator.geolocation) {
+        resolve(null);
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          this.cachedUserLocation = {
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+          };
+          resolve(this.cachedUserLocation);
+        },
+        (error) => {
+          console.warn('Geolocation error:', error.message);
+          resolve(null);
+        },
+        { enableHighAccuracy: false, maximumAge: 0, timeout }
+      );
+    });
+  }
+
+  on(type: CameraEventType, listener: CameraListener): () => void {
+    return this.camera.on(type, listener);
+  }
+
+  off(type: CameraEventType, listener: CameraListener): void {
+    this.camera.off(type, listener);
+  }
+
+  beginGesture(): void {
+    this.camera.beginGesture();
+  }
+
+  endGesture(): void {
+    this.camera.endGesture();
+  }
+
+  private getCameraState(): CameraState {
+    return {
+      center: this.getCenter(),
+      zoom: this.getZoom(),
+      rotation: this.getRotation(),
+      bounds: this.getBounds(),
+    };
+  }
+
+  destroy(): void {
+    this.camera.destroy();
+    this.stopLocationTracking();
+    this.clearMarkers();
+    if (this.map) {
+      this.map.remove();
+      this.map = null;
+    }
+    this.container = null;
+  }
+}
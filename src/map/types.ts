@@ -3,6 +3,12 @@ export interface LatLng {
   lng: number;
 }
 
+// Pixel position relative to the map container's top-left corner
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
 export interface RouteInfo {
   distance: number;      // meters
   duration: number;      // seconds
@@ -31,6 +37,34 @@ export interface MapOptions {
   rotation?: number;
 }
 
+// Target for setCamera(); omitted fields keep their current value
+export interface CameraOptions {
+  center?: LatLng;
+  zoom?: number;
+  rotation?: number;     // degrees, clockwise
+}
+
+export interface CameraState {
+  center: LatLng;
+  zoom: number;
+  rotation: number;      // degrees, clockwise
+  bounds: MapBounds;
+}
+
+export type CameraEventType = 'camerachange' | 'regionchangestart' | 'regionchangeend';
+
+// What caused a camera change: the user's fingers/mouse, an animated transition,
+// or a direct non-animated call from app code
+export type CameraChangeSource = 'gesture' | 'animation' | 'programmatic';
+
+export interface CameraChangeEvent {
+  type: CameraEventType;
+  source: CameraChangeSource;
+  state: CameraState;
+}
+
+export type CameraListener = (event: CameraChangeEvent) => void;
+
 export interface MapProvider {
   init(container: HTMLElement, options: MapOptions): Promise<void>;
   setCenter(lat: number, lng: number, animated?: boolean): void;
@@ -40,9 +74,13 @@ export interface MapProvider {
   setCenterAndZoom(lat: number, lng: number, zoom: number, animated?: boolean): void;
   setRotation(degrees: number, animated?: boolean): void;
   getRotation(): number;
+  setCamera(camera: CameraOptions, animated?: boolean): void;
   panBy(dx: number, dy: number): void;
   zoomAtPoint(x: number, y: number, zoomDelta: number): void;
   getBounds(): MapBounds;
+  screenToCoordinate(x: number, y: number): LatLng;
+  coordinateToScreen(lat: number, lng: number): ScreenPoint;
+  placeCoordinateAtScreenPoint(coord: LatLng, x: number, y: number): void;
   setNativeInteractionsEnabled(enabled: boolean): void;
   addMarkers(markers: MapMarker[]): void;
   clearMarkers(): void;
@@ -54,7 +92,11 @@ export interface MapProvider {
   clearRoute(): void;
   getDirections(from: LatLng, to: LatLng): Promise<RouteInfo>;
   centerOnUserLocation(zoom?: number, rotation?: number): Promise<void>;
+  on(type: CameraEventType, listener: CameraListener): () => void;
+  off(type: CameraEventType, listener: CameraListener): void;
+  beginGesture(): void;
+  endGesture(): void;
   destroy(): void;
 }
 
-export type MapProviderType = 'apple' | 'google';
+export type MapProviderType = 'apple' | 'google' | 'tiles' | 'headless';
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { clampSetting, DEFAULT_SETTINGS, isValidSetting, RANGES, SettingKey, SettingsStore } from './settings';
+
+function storageWith(json: string): Storage {
+  const items = new Map([['whirlZoomMap.settings', json]]);
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+describe('isValidSetting', () => {
+  it('accepts every default', () => {
+    for (const key of Object.keys(DEFAULT_SETTINGS) as SettingKey[]) {
+      expect(isValidSetting(key, DEFAULT_SETTINGS[key]), key).toBe(true);
+    }
+  });
+
+  it('rejects inherited keys, wrong types, non-finite and out-of-range numbers', () => {
+    expect(isValidSetting('__proto__', {})).toBe(false);
+    expect(isValidSetting('toString', 1)).toBe(false);
+    expect(isValidSetting('TRAIL_DURATION_MS', '300')).toBe(false);
+    expect(isValidSetting('TRAIL_DURATION_MS', NaN)).toBe(false);
+    expect(isValidSetting('TRAIL_DURATION_MS', Infinity)).toBe(false);
+    expect(isValidSetting('TRAIL_RESAMPLE_SPACING_PX', 0)).toBe(false);
+    expect(isValidSetting('TRAIL_DURATION_MS', RANGES.TRAIL_DURATION_MS[1] + 1)).toBe(false);
+  });
+});
+
+describe('clampSetting', () => {
+  it('pulls values into range', () => {
+    const [min, max] = RANGES.ZOOM_RATE_COEFF;
+    expect(clampSetting('ZOOM_RATE_COEFF', min - 1)).toBe(min);
+    expect(clampSetting('ZOOM_RATE_COEFF', max + 1)).toBe(max);
+  });
+});
+
+describe('SettingsStore', () => {
+  it('loads only valid stored values', () => {
+    const store = new SettingsStore(
+      storageWith('{"TRAIL_DURATION_MS": 500, "TRAIL_RESAMPLE_SPACING_PX": 0, "__proto__": 1, "NOT_A_SETTING": 1}')
+    );
+    expect(store.get('TRAIL_DURATION_MS')).toBe(500);
+    expect(store.get('TRAIL_RESAMPLE_SPACING_PX')).toBe(DEFAULT_SETTINGS.TRAIL_RESAMPLE_SPACING_PX);
+    expect(Object.keys(store.getOverrides())).toEqual(['TRAIL_DURATION_MS']);
+  });
+
+  it('applies only valid imported values', () => {
+    const store = new SettingsStore(null);
+    const accepted = store.apply({ TRAIL_DURATION_MS: 500, TRAIL_RESAMPLE_SPACING_PX: -3, TRAIL_LINE_WIDTH: null });
+    expect(accepted).toEqual(['TRAIL_DURATION_MS']);
+    expect(store.get('TRAIL_RESAMPLE_SPACING_PX')).toBe(DEFAULT_SETTINGS.TRAIL_RESAMPLE_SPACING_PX);
+  });
+
+  it('ignores invalid values passed to set', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = new SettingsStore(null);
+    store.set('TRAIL_RESAMPLE_SPACING_PX', 0);
+    expect(store.get('TRAIL_RESAMPLE_SPACING_PX')).toBe(DEFAULT_SETTINGS.TRAIL_RESAMPLE_SPACING_PX);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,429 @@
+import * as control from './control';
+
+/**
+ * settings.ts - Runtime-tunable gesture and visualization settings
+ *
+ * Seeded from the control.ts defaults, changeable while the app runs and
+ * persisted in localStorage, so a value can be tried on a phone without a
+ * rebuild. Keys keep their control.ts names.
+ *
+ * Only the sections that shape how the map feels are here (touch, rotation,
+ * edge and gear indicators, inertia, zoom, mouse, keyboard, visualization).
+ * Map defaults, zoom limits, geolocation, routes, POIs and search stay
+ * compile-time constants in control.ts.
+ */
+
+const DEFAULTS = {
+  // TOUCH_INTERACTION
+  DOUBLE_TAP_THRESHOLD_MS: control.DOUBLE_TAP_THRESHOLD_MS,
+  TAP_MAX_DURATION_MS: control.TAP_MAX_DURATION_MS,
+  TAP_SLOP_PX: control.TAP_SLOP_PX,
+  LONG_PRESS_DURATION_MS: control.LONG_PRESS_DURATION_MS,
+  QUICK_ZOOM_TAP_DISTANCE_PX: control.QUICK_ZOOM_TAP_DISTANCE_PX,
+  QUICK_ZOOM_DRAG_PX_PER_LEVEL: control.QUICK_ZOOM_DRAG_PX_PER_LEVEL,
+  QUICK_ZOOM_STEP: control.QUICK_ZOOM_STEP,
+  QUICK_ZOOM_ANIMATION_MS: control.QUICK_ZOOM_ANIMATION_MS,
+
+  // ROTATION
+  ROTATION_MODE: control.ROTATION_MODE,
+  ROTATION_EDGE_THRESHOLD_RATIO: control.ROTATION_EDGE_THRESHOLD_RATIO,
+  ROTATION_SPEED_DEG_PER_SEC: control.ROTATION_SPEED_DEG_PER_SEC,
+  ROTATION_MAX_DT: control.ROTATION_MAX_DT,
+  GEAR_EDGE_MODE: control.GEAR_EDGE_MODE,
+  GEAR_DIRECTION_LEFT: control.GEAR_DIRECTION_LEFT,
+  GEAR_DIRECTION_RIGHT: control.GEAR_DIRECTION_RIGHT,
+  GEAR_DIRECTION_TOP: control.GEAR_DIRECTION_TOP,
+  GEAR_DIRECTION_BOTTOM: control.GEAR_DIRECTION_BOTTOM,
+
+  // EDGE_INDICATOR
+  EDGE_BAR_GAP_PX: control.EDGE_BAR_GAP_PX,
+  EDGE_BAR_WIDTH_DIVISOR: control.EDGE_BAR_WIDTH_DIVISOR,
+  EDGE_BAR_Z_INDEX: control.EDGE_BAR_Z_INDEX,
+  EDGE_BAR_OPACITY: control.EDGE_BAR_OPACITY,
+  EDGE_BAR_COLOR_RED: control.EDGE_BAR_COLOR_RED,
+  EDGE_BAR_COLOR_BLUE: control.EDGE_BAR_COLOR_BLUE,
+  EDGE_START_THRESHOLD_RATIO: control.EDGE_START_THRESHOLD_RATIO,
+  EDGE_END_THRESHOLD_RATIO: control.EDGE_END_THRESHOLD_RATIO,
+  EDGE_ROTATION_THRESHOLD_RATIO: control.EDGE_ROTATION_THRESHOLD_RATIO,
+
+  // GEAR_INDICATOR
+  GEAR_SIZE_PX: control.GEAR_SIZE_PX,
+  GEAR_MARGIN_RATIO: control.GEAR_MARGIN_RATIO,
+  GEAR_CENTER_OFFSET_X: control.GEAR_CENTER_OFFSET_X,
+  GEAR_CENTER_OFFSET_Y: control.GEAR_CENTER_OFFSET_Y,
+  GEAR_Z_INDEX: control.GEAR_Z_INDEX,
+  GEAR_COLOR_ROTATION: control.GEAR_COLOR_ROTATION,
+  GEAR_SYNC_WITH_MAP: control.GEAR_SYNC_WITH_MAP,
+
+  // INERTIA
+  INERTIA_TIME_CONSTANT_MS: control.INERTIA_TIME_CONSTANT_MS,
+  INERTIA_MIN_VELOCITY: control.INERTIA_MIN_VELOCITY,
+  INERTIA_SAMPLE_WINDOW_MS: control.INERTIA_SAMPLE_WINDOW_MS,
+  INERTIA_RUBBER_BAND: control.INERTIA_RUBBER_BAND,
+  INERTIA_RUBBER_BAND_LATITUDE: control.INERTIA_RUBBER_BAND_LATITUDE,
+  ROTATION_INERTIA_TIME_CONSTANT_MS: control.ROTATION_INERTIA_TIME_CONSTANT_MS,
+  ROTATION_INERTIA_MIN_VELOCITY: control.ROTATION_INERTIA_MIN_VELOCITY,
+  ZOOM_INERTIA_TIME_CONSTANT_MS: control.ZOOM_INERTIA_TIME_CONSTANT_MS,
+  ZOOM_INERTIA_MIN_VELOCITY: control.ZOOM_INERTIA_MIN_VELOCITY,
+
+  // ZOOM
+  ZOOM_BLOCK_DURATION_MS: control.ZOOM_BLOCK_DURATION_MS,
+  ZOOM_AREA_THRESHOLD: control.ZOOM_AREA_THRESHOLD,
+  ZOOM_ALT1_THRESHOLD: control.ZOOM_ALT1_THRESHOLD,
+  ZOOM_RATE_COEFF: control.ZOOM_RATE_COEFF,
+  ZOOM_FULL_CIRCLES_MULT: control.ZOOM_FULL_CIRCLES_MULT,
+  ZOOM_WHEEL_SENSITIVITY: control.ZOOM_WHEEL_SENSITIVITY,
+  ZOOM_PINCH_WHEEL_SENSITIVITY: control.ZOOM_PINCH_WHEEL_SENSITIVITY,
+  WHEEL_LINE_HEIGHT_PX: control.WHEEL_LINE_HEIGHT_PX,
+  WHEEL_MOUSE_MIN_DELTA_PX: control.WHEEL_MOUSE_MIN_DELTA_PX,
+  WHEEL_GESTURE_GAP_MS: control.WHEEL_GESTURE_GAP_MS,
+  PINCH_AXIS_LOCK: control.PINCH_AXIS_LOCK,
+  PINCH_ZOOM_THRESHOLD: control.PINCH_ZOOM_THRESHOLD,
+  PINCH_ROTATION_THRESHOLD_DEG: control.PINCH_ROTATION_THRESHOLD_DEG,
+  WHIRL_ROTATE_GAIN: control.WHIRL_ROTATE_GAIN,
+  WHIRL_ROTATE_MIN_RADIUS_PX: control.WHIRL_ROTATE_MIN_RADIUS_PX,
+
+  // MOUSE
+  MOUSE_ZOOM_AREA_THRESHOLD: control.MOUSE_ZOOM_AREA_THRESHOLD,
+  MOUSE_ZOOM_ALT1_THRESHOLD: control.MOUSE_ZOOM_ALT1_THRESHOLD,
+  MOUSE_ZOOM_RATE_COEFF: control.MOUSE_ZOOM_RATE_COEFF,
+  MOUSE_ROTATION_DEG_PER_PX: control.MOUSE_ROTATION_DEG_PER_PX,
+
+  // KEYBOARD
+  KEYBOARD_PAN_SPEED_PX_PER_SEC: control.KEYBOARD_PAN_SPEED_PX_PER_SEC,
+  KEYBOARD_PAN_MAX_SPEED_MULT: control.KEYBOARD_PAN_MAX_SPEED_MULT,
+  KEYBOARD_PAN_ACCEL_MS: control.KEYBOARD_PAN_ACCEL_MS,
+  KEYBOARD_ZOOM_RATE: control.KEYBOARD_ZOOM_RATE,
+  KEYBOARD_ROTATION_DEG_PER_SEC: control.KEYBOARD_ROTATION_DEG_PER_SEC,
+  KEYBOARD_MIN_PRESS_MS: control.KEYBOARD_MIN_PRESS_MS,
+  KEYBOARD_MAX_DT: control.KEYBOARD_MAX_DT,
+
+  // VISUALIZATION
+  TRAIL_DURATION_MS: control.TRAIL_DURATION_MS,
+  TRAIL_RESAMPLE_SPACING_PX: control.TRAIL_RESAMPLE_SPACING_PX,
+  TRAIL_CIRCLE_RADIUS: control.TRAIL_CIRCLE_RADIUS,
+  TRAIL_LINE_WIDTH: control.TRAIL_LINE_WIDTH,
+  TRAIL_STROKE_COLOR: control.TRAIL_STROKE_COLOR,
+  TRAIL_FILL_COLOR: control.TRAIL_FILL_COLOR,
+  TRAIL_TRIANGLE_COLOR_POSITIVE: control.TRAIL_TRIANGLE_COLOR_POSITIVE,
+  TRAIL_TRIANGLE_COLOR_NEGATIVE: control.TRAIL_TRIANGLE_COLOR_NEGATIVE,
+  TRAIL_CIRCLE_COLOR_POSITIVE: control.TRAIL_CIRCLE_COLOR_POSITIVE,
+  TRAIL_CIRCLE_COLOR_NEGATIVE: control.TRAIL_CIRCLE_COLOR_NEGATIVE,
+  TRAIL_THRESHOLD_COLOR: control.TRAIL_THRESHOLD_COLOR,
+  TRAIL_THRESHOLD_FILL_COLOR: control.TRAIL_THRESHOLD_FILL_COLOR,
+  TRAIL_ROTATE_COLOR: control.TRAIL_ROTATE_COLOR,
+  VIRTUAL_TOUCH_DURATION_MS: control.VIRTUAL_TOUCH_DURATION_MS,
+  SPIRAL_BASE_RADIUS: control.SPIRAL_BASE_RADIUS,
+  SPIRAL_RADIUS_GROWTH: control.SPIRAL_RADIUS_GROWTH,
+  SPIRAL_SEGMENTS: control.SPIRAL_SEGMENTS,
+  SPIRAL_LINE_WIDTH: control.SPIRAL_LINE_WIDTH,
+  SPIRAL_START_ANGLE: control.SPIRAL_START_ANGLE,
+  AREA_CIRCLE_X_RATIO: control.AREA_CIRCLE_X_RATIO,
+  INDICATOR_CIRCLE_DEFAULT_Y: control.INDICATOR_CIRCLE_DEFAULT_Y,
+  INDICATOR_CIRCLE_SCALE: control.INDICATOR_CIRCLE_SCALE,
+  INDICATOR_STROKE_WIDTH: control.INDICATOR_STROKE_WIDTH,
+  ZOOM_TEXT_FONT: control.ZOOM_TEXT_FONT,
+  ZOOM_TEXT_COLOR: control.ZOOM_TEXT_COLOR,
+  ZOOM_TEXT_X_OFFSET: control.ZOOM_TEXT_X_OFFSET,
+};
+
+export type Settings = typeof DEFAULTS;
+export type SettingKey = keyof Settings;
+type KeysOfType<T> = { [K in SettingKey]: Settings[K] extends T ? K : never }[SettingKey];
+export type NumberKey = KeysOfType<number>;
+export type BooleanKey = KeysOfType<boolean>;
+export type StringKey = KeysOfType<string>;
+export type SettingListener<K extends SettingKey> = (value: Settings[K], key: K) => void;
+
+export const DEFAULT_SETTINGS: Readonly<Settings> = DEFAULTS;
+
+const STORAGE_KEY = 'whirlZoomMap.settings';
+
+// String settings that only take one of a fixed set of values
+const CHOICES: Partial<Record<SettingKey, readonly string[]>> = {
+  ROTATION_MODE: control.ROTATION_MODES,
+  GEAR_EDGE_MODE: control.GEAR_EDGE_MODES,
+  GEAR_DIRECTION_LEFT: control.GEAR_DIRECTIONS,
+  GEAR_DIRECTION_RIGHT: control.GEAR_DIRECTIONS,
+  GEAR_DIRECTION_TOP: control.GEAR_DIRECTIONS,
+  GEAR_DIRECTION_BOTTOM: control.GEAR_DIRECTIONS,
+};
+
+// Accepted [min, max] of number settings - also the tuning panel's slider
+// ranges. Divisors start above 0. Numbers not listed (z-indices, offsets,
+// angles) only have to be finite.
+export const RANGES = {
+  // TOUCH_INTERACTION
+  DOUBLE_TAP_THRESHOLD_MS: [100, 600],
+  TAP_MAX_DURATION_MS: [100, 600],
+  TAP_SLOP_PX: [2, 40],
+  LONG_PRESS_DURATION_MS: [200, 1500],
+  QUICK_ZOOM_TAP_DISTANCE_PX: [10, 120],
+  QUICK_ZOOM_DRAG_PX_PER_LEVEL: [20, 400],
+  QUICK_ZOOM_STEP: [0.25, 3],
+  QUICK_ZOOM_ANIMATION_MS: [0, 600],
+
+  // ROTATION
+  ROTATION_EDGE_THRESHOLD_RATIO: [2, 30],
+  ROTATION_SPEED_DEG_PER_SEC: [10, 360],
+  ROTATION_MAX_DT: [0.02, 0.5],
+
+  // EDGE_INDICATOR
+  EDGE_BAR_GAP_PX: [0, 40],
+  EDGE_BAR_WIDTH_DIVISOR: [16, 256],
+  EDGE_BAR_OPACITY: [0, 1],
+  EDGE_START_THRESHOLD_RATIO: [2, 32],
+  EDGE_END_THRESHOLD_RATIO: [2, 64],
+  EDGE_ROTATION_THRESHOLD_RATIO: [2, 64],
+
+  // GEAR_INDICATOR
+  GEAR_SIZE_PX: [48, 288],
+  GEAR_MARGIN_RATIO: [0.1, 1.5],
+  GEAR_CENTER_OFFSET_X: [-10, 10],
+  GEAR_CENTER_OFFSET_Y: [-10, 10],
+
+  // INERTIA
+  INERTIA_TIME_CONSTANT_MS: [50, 1000],
+  INERTIA_MIN_VELOCITY: [0.005, 0.2],
+  INERTIA_SAMPLE_WINDOW_MS: [30, 300],
+  INERTIA_RUBBER_BAND_LATITUDE: [0, 85],
+  ROTATION_INERTIA_TIME_CONSTANT_MS: [50, 1000],
+  ROTATION_INERTIA_MIN_VELOCITY: [0.0005, 0.02],
+  ZOOM_INERTIA_TIME_CONSTANT_MS: [50, 1000],
+  ZOOM_INERTIA_MIN_VELOCITY: [0.00001, 0.0005],
+
+  // ZOOM
+  ZOOM_BLOCK_DURATION_MS: [0, 1000],
+  ZOOM_AREA_THRESHOLD: [100, 5000],
+  ZOOM_ALT1_THRESHOLD: [50, 3000],
+  ZOOM_RATE_COEFF: [1, 80],
+  ZOOM_FULL_CIRCLES_MULT: [0.5, 5],
+  ZOOM_WHEEL_SENSITIVITY: [0.0005, 0.01],
+  ZOOM_PINCH_WHEEL_SENSITIVITY: [0.002, 0.05],
+  WHEEL_LINE_HEIGHT_PX: [8, 40],
+  WHEEL_MOUSE_MIN_DELTA_PX: [10, 200],
+  WHEEL_GESTURE_GAP_MS: [50, 1000],
+  PINCH_ZOOM_THRESHOLD: [0, 1],
+  PINCH_ROTATION_THRESHOLD_DEG: [0, 45],
+  WHIRL_ROTATE_GAIN: [0.1, 4],
+  WHIRL_ROTATE_MIN_RADIUS_PX: [0, 80],
+
+  // MOUSE
+  MOUSE_ZOOM_AREA_THRESHOLD: [100, 8000],
+  MOUSE_ZOOM_ALT1_THRESHOLD: [50, 5000],
+  MOUSE_ZOOM_RATE_COEFF: [1, 80],
+  MOUSE_ROTATION_DEG_PER_PX: [0.05, 2],
+
+  // KEYBOARD
+  KEYBOARD_PAN_SPEED_PX_PER_SEC: [50, 1500],
+  KEYBOARD_PAN_MAX_SPEED_MULT: [1, 8],
+  KEYBOARD_PAN_ACCEL_MS: [0, 3000],
+  KEYBOARD_ZOOM_RATE: [0.25, 6],
+  KEYBOARD_ROTATION_DEG_PER_SEC: [10, 360],
+  KEYBOARD_MIN_PRESS_MS: [0, 1000],
+  KEYBOARD_MAX_DT: [0.01, 1],
+
+  // VISUALIZATION
+  TRAIL_DURATION_MS: [50, 2000],
+  TRAIL_RESAMPLE_SPACING_PX: [1, 20],
+  TRAIL_CIRCLE_RADIUS: [1, 30],
+  TRAIL_LINE_WIDTH: [1, 12],
+  VIRTUAL_TOUCH_DURATION_MS: [0, 5000],
+  SPIRAL_BASE_RADIUS: [10, 120],
+  SPIRAL_RADIUS_GROWTH: [0, 20],
+  SPIRAL_SEGMENTS: [10, 400],
+  SPIRAL_LINE_WIDTH: [1, 12],
+  AREA_CIRCLE_X_RATIO: [1, 10],
+  INDICATOR_CIRCLE_SCALE: [0.1, 2],
+  INDICATOR_STROKE_WIDTH: [1, 10],
+} satisfies Partial<Record<NumberKey, readonly [number, number]>>;
+
+export type RangedKey = keyof typeof RANGES;
+
+/**
+ * Whether value may be stored under key: a known setting (not something
+ * inherited like __proto__) of the right type, finite and within RANGES for
+ * numbers, one of CHOICES for enum-like strings.
+ */
+export function isValidSetting(key: string, value: unknown): key is SettingKey {
+  if (!Object.prototype.hasOwnProperty.call(DEFAULT_SETTINGS, key)) return false;
+  const settingKey = key as SettingKey;
+  if (typeof value !== typeof DEFAULT_SETTINGS[settingKey]) return false;
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return false;
+    const range = (RANGES as Partial<Record<SettingKey, readonly [number, number]>>)[settingKey];
+    return !range || (value >= range[0] && value <= range[1]);
+  }
+  const choices = CHOICES[settingKey];
+  return !choices || choices.includes(value as string);
+}
+
+/**
+ * Pull value into key's range (for computed values such as calibration results).
+ */
+export function clampSetting(key: RangedKey, value: number): number {
+  const [min, max] = RANGES[key];
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * SettingsStore - Typed, observable key-value store over DEFAULT_SETTINGS.
+ *
+ * Only values that differ from the defaults are persisted, so a changed
+ * default in control.ts reaches everyone who hasn't overridden it. Stored,
+ * imported or set values that fail isValidSetting are ignored.
+ */
+export class SettingsStore {
+  private values: Settings;
+  private storage: Storage | null;
+  private listeners = new Map<SettingKey, Set<SettingListener<any>>>();
+  private anyListeners = new Set<(key: SettingKey) => void>();
+
+  constructor(storage: Storage | null) {
+    this.storage = storage;
+    this.values = { ...DEFAULT_SETTINGS };
+    this.load();
+  }
+
+  get<K extends SettingKey>(key: K): Settings[K] {
+    return this.values[key];
+  }
+
+  getAll(): Settings {
+    return { ...this.values };
+  }
+
+  getDefault<K extends SettingKey>(key: K): Settings[K] {
+    return DEFAULT_SETTINGS[key];
+  }
+
+  isDefault(key: SettingKey): boolean {
+    return this.values[key] === DEFAULT_SETTINGS[key];
+  }
+
+  set<K extends SettingKey>(key: K, value: Settings[K]): void {
+    if (this.values[key] === value) return;
+    if (!isValidSetting(key, value)) {
+      console.warn(`Ignoring invalid value for ${key}:`, value);
+      return;
+    }
+    this.values[key] = value;
+    this.save();
+    this.emit(key);
+  }
+
+  reset(key: SettingKey): void {
+    this.set(key, DEFAULT_SETTINGS[key]);
+  }
+
+  resetAll(): void {
+    for (const key of Object.keys(DEFAULT_SETTINGS) as SettingKey[]) {
+      this.reset(key);
+    }
+  }
+
+  /**
+   * Set every entry of values that names a setting and passes isValidSetting.
+   * Returns the keys that were accepted.
+   */
+  apply(values: Record<string, unknown>): SettingKey[] {
+    const accepted = this.validKeys(values);
+    for (const key of accepted) {
+      this.set(key, values[key] as Settings[typeof key]);
+    }
+    return accepted;
+  }
+
+  /**
+   * Values that differ from the defaults.
+   */
+  getOverrides(): Partial<Settings> {
+    const overrides: Partial<Record<SettingKey, unknown>> = {};
+    for (const key of Object.keys(DEFAULT_SETTINGS) as SettingKey[]) {
+      if (!this.isDefault(key)) {
+        overrides[key] = this.values[key];
+      }
+    }
+    return overrides as Partial<Settings>;
+  }
+
+  /**
+   * Call listener whenever key changes. Returns an unsubscribe function.
+   */
+  on<K extends SettingKey>(key: K, listener: SettingListener<K>): () => void {
+    let set = this.listeners.get(key);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(key, set);
+    }
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  /**
+   * Call listener whenever any setting changes. Returns an unsubscribe function.
+   */
+  onAnyChange(listener: (key: SettingKey) => void): () => void {
+    this.anyListeners.add(listener);
+    return () => this.anyListeners.delete(listener);
+  }
+
+  private emit(key: SettingKey): void {
+    const value = this.values[key];
+    for (const listener of [...(this.listeners.get(key) ?? [])]) {
+      listener(value, key);
+    }
+    for (const listener of [...this.anyListeners]) {
+      listener(key);
+    }
+  }
+
+  private load(): void {
+    if (!this.storage) return;
+    let stored: unknown;
+    try {
+      stored = JSON.parse(this.storage.getItem(STORAGE_KEY) ?? '{}');
+    } catch {
+      console.warn('Ignoring unreadable stored settings');
+      return;
+    }
+    if (typeof stored !== 'object' || stored === null) return;
+
+    const values = stored as Record<string, unknown>;
+    for (const key of this.validKeys(values)) {
+      (this.values as Record<string, unknown>)[key] = values[key];
+    }
+  }
+
+  private validKeys(values: Record<string, unknown>): SettingKey[] {
+    return Object.keys(values).filter((key): key is SettingKey => isValidSetting(key, values[key]));
+  }
+
+  private save(): void {
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.getOverrides()));
+    } catch {
+      // Storage full or unavailable (e.g. private browsing) - the change still applies for this session
+    }
+  }
+}
+
+function browserStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    // Accessing localStorage throws when storage is blocked
+    return null;
+  }
+}
+
+export const settings = new SettingsStore(browserStorage());
+
+/**
+ * Whether the map may be rotated at all (ROTATION_MODE isn't 'off').
+ */
+export function isRotationEnabled(): boolean {
+  return settings.get('ROTATION_MODE') !== 'off';
+}
@@ -4,7 +4,7 @@ export class Compass {
   private container: HTMLElement;
   private mapProvider: MapProvider;
   private svgElement: SVGElement | null = null;
-  private animationFrameId: number | null = null;
+  private unsubscribe: (() => void) | null = null;
 
   constructor(container: HTMLElement, mapProvider: MapProvider) {
     this.container = container;
@@ -36,15 +36,17 @@ export class Compass {
   }
 
   private startRotationSync(): void {
-    const updateRotation = () => {
-      if (this.svgElement) {
-        const rotation = this.mapProvider.getRotation();
-        // Rotate the compass in the opposite direction to always point north
-        this.svgElement.style.transform = `rotate(${rotation}deg)`;
-      }
-      this.animationFrameId = requestAnimationFrame(updateRotation);
-    };
-    this.animationFrameId = requestAnimationFrame(updateRotation);
+    this.updateRotation(this.mapProvider.getRotation());
+    this.unsubscribe = this.mapProvider.on('camerachange', (e) => {
+      this.updateRotation(e.state.rotation);
+    });
+  }
+
+  private updateRotation(rotation: number): void {
+    if (this.svgElement) {
+      // Rotate the compass in the opposite direction to always point north
+      this.svgElement.style.transform = `rotate(${rotation}deg)`;
+    }
   }
 
   private resetToNorth(): void {
@@ -52,9 +54,9 @@ export class Compass {
   }
 
   destroy(): void {
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
     }
     this.container.innerHTML = '';
   }
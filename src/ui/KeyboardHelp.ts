@@ -0,0 +1,51 @@
+import { KEYBOARD_SHORTCUTS, ShortcutHelp } from '../interaction/KeyboardHandler';
+
+export class KeyboardHelp implements ShortcutHelp {
+  private container: HTMLElement;
+  private panel: HTMLElement | null = null;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.render();
+  }
+
+  private render(): void {
+    const rows = KEYBOARD_SHORTCUTS.map(({ keys, description }) => `
+      <tr>
+        <td>${keys.map((key) => `<kbd>${key}</kbd>`).join(' ')}</td>
+        <td>${description}</td>
+      </tr>
+    `).join('');
+
+    this.container.innerHTML = `
+      <button id="keyboard-help-btn" class="map-control-btn" title="Keyboard shortcuts (?)" aria-label="Keyboard shortcuts">?</button>
+      <div id="keyboard-help-panel" class="hidden" role="dialog" aria-label="Keyboard shortcuts">
+        <div class="keyboard-help-title">Keyboard shortcuts</div>
+        <table>${rows}</table>
+      </div>
+    `;
+
+    this.panel = this.container.querySelector('#keyboard-help-panel');
+
+    this.container.querySelector('#keyboard-help-btn')!.addEventListener('pointerdown', (e) => {
+      e.preventDefault();
+      this.toggle();
+    });
+  }
+
+  toggle(): void {
+    this.panel?.classList.toggle('hidden');
+  }
+
+  hide(): void {
+    this.panel?.classList.add('hidden');
+  }
+
+  isVisible(): boolean {
+    return !!this.panel && !this.panel.classList.contains('hidden');
+  }
+
+  destroy(): void {
+    this.container.innerHTML = '';
+  }
+}
@@ -1,4 +1,6 @@
-import { MapProvider } from '../map/types';
+import { MapMarker, MapProvider } from '../map/types';
+import { boundsCenter, longitudeSpan } from '../map/bounds';
+import { config } from '../config';
 import {
   SEARCH_DEBOUNCE_MS,
   SEARCH_MAX_AUTOCOMPLETE_RESULTS,
@@ -10,185 +12,185 @@ declare const mapkit: any;
 
 // Map common search terms to [minZoom, MapKit POI categories]
 const SEARCH_TO_POI_CATEGORIES: Record<string, [number, string[]]> = {
-  // Food & Drink (minZoom: 16)
-  food:              [16, ['Restaurant', 'Cafe', 'Bakery', 'FoodMarket']],
-  restaurant:        [16, ['Restaurant']],
-  restaurants:       [16, ['Restaurant']],
-  cafe:              [16, ['Cafe']],
-  cafes:             [16, ['Cafe']],
-  coffee:            [16, ['Cafe']],
-  bakery:            [16, ['Bakery']],
-  bakeries:          [16, ['Bakery']],
-  grocery:           [16, ['FoodMarket']],
-  groceries:         [16, ['FoodMarket']],
-  supermarket:       [16, ['FoodMarket']],
-  'food market':     [16, ['FoodMarket']],
-  winery:            [16, ['Winery']],
-  wine:              [16, ['Winery']],
-  brewery:           [16, ['Brewery']],
-  beer:              [16, ['Brewery']],
-  distillery:        [16, ['Distillery']],
-
-  // Nightlife & Entertainment (minZoom: 16)
-  bar:               [16, ['Nightlife']],
-  bars:              [16, ['Nightlife']],
-  nightlife:         [16, ['Nightlife']],
-  club:              [16, ['Nightlife']],
-  clubs:             [16, ['Nightlife']],
-  pub:               [16, ['Nightlife']],
-  pubs:              [16, ['Nightlife']],
-  movie:             [16, ['MovieTheater']],
-  movies:            [16, ['MovieTheater']],
-  cinema:            [16, ['MovieTheater']],
-  'movie theater':   [16, ['MovieTheater']],
-  theater:           [16, ['Theater']],
-  theatre:           [16, ['Theater']],
-  music:             [16, ['MusicVenue']],
-  'music venue':     [16, ['MusicVenue']],
-  concert:           [16, ['MusicVenue']],
-  amusement:         [16, ['Amusement']],
-  'amusement park':  [16, ['Amusement']],
-  'theme park':      [16, ['Amusement']],
-  casino:            [16, ['Casino']],
-  casinos:           [16, ['Casino']],
-
-  // Outdoors & Nature (minZoom: 13)
-  park:              [13, ['Park']],
-  parks:             [13, ['Park']],
-  'national park':   [13, ['NationalPark']],
-  beach:             [13, ['Beach']],
-  beaches:           [13, ['Beach']],
-  campground:        [13, ['Campground']],
-  camping:           [13, ['Campground']],
-  marina:            [13, ['Marina']],
-  boat:              [13, ['Marina']],
-  zoo:               [13, ['Zoo']],
-  zoos:              [13, ['Zoo']],
-  aquarium:          [13, ['Aquarium']],
-
-  // Sports & Fitness (minZoom: 15.5)
-  sport:             [15.5, ['FitnessCenter', 'Stadium', 'Swimming', 'Soccer', 'Volleyball', 'Tennis', 'Skating']],
-  sports:            [15.5, ['FitnessCenter', 'Stadium', 'Swimming', 'Soccer', 'Volleyball', 'Tennis', 'Skating']],
-  gym:               [15.5, ['FitnessCenter']],
-  fitness:           [15.5, ['FitnessCenter']],
-  'fitness center':  [15.5, ['FitnessCenter']],
-  golf:              [15.5, ['Golf']],
-  'golf course':     [15.5, ['Golf']],
-  stadium:           [15.5, ['Stadium']],
-  stadiums:          [15.5, ['Stadium']],
-  skating:           [15.5, ['Skating']],
-  'ice skating':     [15.5, ['Skating']],
-  skiing:            [15.5, ['Skiing']],
-  'ski resort':      [15.5, ['Skiing']],
-  swimming:          [15.5, ['Swimming']],
-  pool:              [15.5, ['Swimming']],
-  tennis:            [15.5, ['Tennis']],
-  'tennis court':    [15.5, ['Tennis']],
-  soccer:            [15.5, ['Soccer']],
-  football:          [15.5, ['Soccer']],
-  volleyball:        [15.5, ['Volleyball']],
-  surfing:           [15.5, ['Surfing']],
-  surf:              [15.5, ['Surfing']],
-  kayaking:          [15.5, ['Kayaking']],
-  kayak:             [15.5, ['Kayaking']],
-  'rock climbing':   [15.5, ['RockClimbing']],
-  climbing:          [15.5, ['RockClimbing']],
-
-  // Services (minZoom: 15.5)
-  bank:              [15.5, ['Bank']],
-  banks:             [15.5, ['Bank']],
-  atm:               [15.5, ['ATM']],
-  atms:              [15.5, ['ATM']],
-  hospital:          [15.5, ['Hospital']],
-  hospitals:         [15.5, ['Hospital']],
-  emergency:         [15.5, ['Hospital']],
-  pharmacy:          [15.5, ['Pharmacy']],
-  pharmacies:        [15.5, ['Pharmacy']],
-  drugstore:         [15.5, ['Pharmacy']],
-  police:            [15.5, ['Police']],
-  'police station':  [15.5, ['Police']],
-  'fire station':    [15.5, ['FireStation']],
-  fire:              [15.5, ['FireStation']],
-  'post office':     [15.5, ['PostOffice']],
-  post:              [15.5, ['PostOffice']],
-  mail:              [15.5, ['PostOffice']],
-  laundry:           [15.5, ['Laundry']],
-  laundromat:        [15.5, ['Laundry']],
-  gas:               [15.5, ['GasStation']],
-  'gas station':     [15.5, ['GasStation']],
-  fuel:              [15.5, ['GasStation']],
-  petrol:            [15.5, ['GasStation']],
-  ev:                [15.5, ['EVCharger']],
-  'ev charger':      [15.5, ['EVCharger']],
-  'electric charger': [15.5, ['EVCharger']],
-  'charging station': [15.5, ['EVCharger']],
-  parking:           [15.5, ['Parking']],
-  'car rental':      [15.5, ['CarRental']],
-  rental:            [15.5, ['CarRental']],
-  automotive:        [15.5, ['Automotive']],
-  'car repair':      [15.5, ['Automotive']],
-  mechanic:          [15.5, ['Automotive']],
-
-  // Travel & Transportation (minZoom: 15)
-  hotel:             [15, ['Hotel']],
-  hotels:            [15, ['Hotel']],
-  motel:             [15, ['Hotel']],
-  lodging:           [15, ['Hotel']],
-  airport:           [15, ['Airport']],
-  airports:          [15, ['Airport']],
-  'public transport': [15, ['PublicTransport']],
-  transit:           [15, ['PublicTransport']],
-  bus:               [15, ['PublicTransport']],
-  train:             [15, ['PublicTransport']],
-  subway:            [15, ['PublicTransport']],
-  'rv park':         [15, ['RVPark']],
-  rv:                [15, ['RVPark']],
-
-  // Shopping (minZoom: 15.5)
-  store:             [15.5, ['Store']],
-  stores:            [15.5, ['Store']],
-  shop:              [15.5, ['Store']],
-  shops:             [15.5, ['Store']],
-  shopping:          [15.5, ['Store']],
-  mall:              [15.5, ['Store']],
-
-  // Culture & Education (minZoom: 15.5)
-  museum:            [15.5, ['Museum']],
-  museums:           [15.5, ['Museum']],
-  library:           [15.5, ['Library']],
-  libraries:         [15.5, ['Library']],
-  landmark:          [15.5, ['Landmark']],
-  landmarks:         [15.5, ['Landmark']],
-  castle:            [15.5, ['Castle']],
-  castles:           [15.5, ['Castle']],
-  fortress:          [15.5, ['Fortress']],
-  school:            [15.5, ['School']],
-  schools:           [15.5, ['School']],
-  university:        [15.5, ['University']],
-  universities:      [15.5, ['University']],
-  college:           [15.5, ['University']],
-
-  // Personal Care & Health (minZoom: 15.5)
-  spa:               [15.5, ['Spa']],
-  spas:              [15.5, ['Spa']],
-  beauty:            [15.5, ['Beauty']],
-  'beauty salon':    [15.5, ['Beauty']],
-  'hair salon':      [15.5, ['HairSalon']],
-  haircut:           [15.5, ['HairSalon']],
-  barber:            [15.5, ['HairSalon']],
-  dentist:           [15.5, ['Dentist']],
-  dental:            [15.5, ['Dentist']],
-  doctor:            [15.5, ['Doctor']],
-  clinic:            [15.5, ['Doctor']],
-  'medical center':  [15.5, ['Doctor']],
-
-  // Other (minZoom: 13)
-  'convention center': [13, ['ConventionCenter']],
-  convention:        [13, ['ConventionCenter']],
-  fairground:        [13, ['Fairground']],
-  fair:              [13, ['Fairground']],
-  karting:           [13, ['Karting']],
-  'go kart':         [13, ['Karting']],
+  // Food & Drink (minZoom: 17.5)
+  food:              [17.5, ['Restaurant', 'Cafe', 'Bakery', 'FoodMarket']],
+  restaurant:        [17.5, ['Restaurant']],
+  restaurants:       [17.5, ['Restaurant']],
+  cafe:              [17.5, ['Cafe']],
+  cafes:             [17.5, ['Cafe']],
+  coffee:            [17.5, ['Cafe']],
+  bakery:            [17.5, ['Bakery']],
+  bakeries:          [17.5, ['Bakery']],
+  grocery:           [17.5, ['FoodMarket']],
+  groceries:         [17.5, ['FoodMarket']],
+  supermarket:       [17.5, ['FoodMarket']],
+  'food market':     [17.5, ['FoodMarket']],
+  winery:            [17.5, ['Winery']],
+  wine:              [17.5, ['Winery']],
+  brewery:           [17.5, ['Brewery']],
+  beer:              [17.5, ['Brewery']],
+  distillery:        [17.5, ['Distillery']],
+
+  // Nightlife & Entertainment (minZoom: 17.5)
+  bar:               [17.5, ['Nightlife']],
+  bars:              [17.5, ['Nightlife']],
+  nightlife:         [17.5, ['Nightlife']],
+  club:              [17.5, ['Nightlife']],
+  clubs:             [17.5, ['Nightlife']],
+  pub:               [17.5, ['Nightlife']],
+  pubs:              [17.5, ['Nightlife']],
+  movie:             [17.5, ['MovieTheater']],
+  movies:            [17.5, ['MovieTheater']],
+  cinema:            [17.5, ['MovieTheater']],
+  'movie theater':   [17.5, ['MovieTheater']],
+  theater:           [17.5, ['Theater']],
+  theatre:           [17.5, ['Theater']],
+  music:             [17.5, ['MusicVenue']],
+  'music venue':     [17.5, ['MusicVenue']],
+  concert:           [17.5, ['MusicVenue']],
+  amusement:         [17.5, ['Amusement']],
+  'amusement park':  [17.5, ['Amusement']],
+  'theme park':      [17.5, ['Amusement']],
+  casino:            [17.5, ['Casino']],
+  casinos:           [17.5, ['Casino']],
+
+  // Outdoors & Nature (minZoom: 14.5)
+  park:              [14.5, ['Park']],
+  parks:             [14.5, ['Park']],
+  'national park':   [14.5, ['NationalPark']],
+  beach:             [14.5, ['Beach']],
+  beaches:           [14.5, ['Beach']],
+  campground:        [14.5, ['Campground']],
+  camping:           [14.5, ['Campground']],
+  marina:            [14.5, ['Marina']],
+  boat:              [14.5, ['Marina']],
+  zoo:               [14.5, ['Zoo']],
+  zoos:              [14.5, ['Zoo']],
+  aquarium:          [14.5, ['Aquarium']],
+
+  // Sports & Fitness (minZoom: 17)
+  sport:             [17, ['FitnessCenter', 'Stadium', 'Swimming', 'Soccer', 'Volleyball', 'Tennis', 'Skating']],
+  sports:            [17, ['FitnessCenter', 'Stadium', 'Swimming', 'Soccer', 'Volleyball', 'Tennis', 'Skating']],
+  gym:               [17, ['FitnessCenter']],
+  fitness:           [17, ['FitnessCenter']],
+  'fitness center':  [17, ['FitnessCenter']],
+  golf:              [17, ['Golf']],
+  'golf course':     [17, ['Golf']],
+  stadium:           [17, ['Stadium']],
+  stadiums:          [17, ['Stadium']],
+  skating:           [17, ['Skating']],
+  'ice skating':     [17, ['Skating']],
+  skiing:            [17, ['Skiing']],
+  'ski resort':      [17, ['Skiing']],
+  swimming:          [17, ['Swimming']],
+  pool:              [17, ['Swimming']],
+  tennis:            [17, ['Tennis']],
+  'tennis court':    [17, ['Tennis']],
+  soccer:            [17, ['Soccer']],
+  football:          [17, ['Soccer']],
+  volleyball:        [17, ['Volleyball']],
+  surfing:           [17, ['Surfing']],
+  surf:              [17, ['Surfing']],
+  kayaking:          [17, ['Kayaking']],
+  kayak:             [17, ['Kayaking']],
+  'rock climbing':   [17, ['RockClimbing']],
+  climbing:          [17, ['RockClimbing']],
+
+  // Services (minZoom: 17)
+  bank:              [17, ['Bank']],
+  banks:             [17, ['Bank']],
+  atm:               [17, ['ATM']],
+  atms:              [17, ['ATM']],
+  hospital:          [17, ['Hospital']],
+  hospitals:         [17, ['Hospital']],
+  emergency:         [17, ['Hospital']],
+  pharmacy:          [17, ['Pharmacy']],
+  pharmacies:        [17, ['Pharmacy']],
+  drugstore:         [17, ['Pharmacy']],
+  police:            [17, ['Police']],
+  'police station':  [17, ['Police']],
+  'fire station':    [17, ['FireStation']],
+  fire:              [17, ['FireStation']],
+  'post office':     [17, ['PostOffice']],
+  post:              [17, ['PostOffice']],
+  mail:              [17, ['PostOffice']],
+  laundry:           [17, ['Laundry']],
+  laundromat:        [17, ['Laundry']],
+  gas:               [17, ['GasStation']],
+  'gas station':     [17, ['GasStation']],
+  fuel:              [17, ['GasStation']],
+  petrol:            [17, ['GasStation']],
+  ev:                [17, ['EVCharger']],
+  'ev charger':      [17, ['EVCharger']],
+  'electric charger': [17, ['EVCharger']],
+  'charging station': [17, ['EVCharger']],
+  parking:           [17, ['Parking']],
+  'car rental':      [17, ['CarRental']],
+  rental:            [17, ['CarRental']],
+  automotive:        [17, ['Automotive']],
+  'car repair':      [17, ['Automotive']],
+  mechanic:          [17, ['Automotive']],
+
+  // Travel & Transportation (minZoom: 16.5)
+  hotel:             [16.5, ['Hotel']],
+  hotels:            [16.5, ['Hotel']],
+  motel:             [16.5, ['Hotel']],
+  lodging:           [16.5, ['Hotel']],
+  airport:           [16.5, ['Airport']],
+  airports:          [16.5, ['Airport']],
+  'public transport': [16.5, ['PublicTransport']],
+  transit:           [16.5, ['PublicTransport']],
+  bus:               [16.5, ['PublicTransport']],
+  train:             [16.5, ['PublicTransport']],
+  subway:            [16.5, ['PublicTransport']],
+  'rv park':         [16.5, ['RVPark']],
+  rv:                [16.5, ['RVPark']],
+
+  // Shopping (minZoom: 17)
+  store:             [17, ['Store']],
+  stores:            [17, ['Store']],
+  shop:              [17, ['Store']],
+  shops:             [17, ['Store']],
+  shopping:          [17, ['Store']],
+  mall:              [17, ['Store']],
+
+  // Culture & Education (minZoom: 17)
+  museum:            [17, ['Museum']],
+  museums:           [17, ['Museum']],
+  library:           [17, ['Library']],
+  libraries:         [17, ['Library']],
+  landmark:          [17, ['Landmark']],
+  landmarks:         [17, ['Landmark']],
+  castle:            [17, ['Castle']],
+  castles:           [17, ['Castle']],
+  fortress:          [17, ['Fortress']],
+  school:            [17, ['School']],
+  schools:           [17, ['School']],
+  university:        [17, ['University']],
+  universities:      [17, ['University']],
+  college:           [17, ['University']],
+
+  // Personal Care & Health (minZoom: 17)
+  spa:               [17, ['Spa']],
+  spas:              [17, ['Spa']],
+  beauty:            [17, ['Beauty']],
+  'beauty salon':    [17, ['Beauty']],
+  'hair salon':      [17, ['HairSalon']],
+  haircut:           [17, ['HairSalon']],
+  barber:            [17, ['HairSalon']],
+  dentist:           [17, ['Dentist']],
+  dental:            [17, ['Dentist']],
+  doctor:            [17, ['Doctor']],
+  clinic:            [17, ['Doctor']],
+  'medical center':  [17, ['Doctor']],
+
+  // Other (minZoom: 14.5)
+  'convention center': [14.5, ['ConventionCenter']],
+  convention:        [14.5, ['ConventionCenter']],
+  fairground:        [14.5, ['Fairground']],
+  fair:              [14.5, ['Fairground']],
+  karting:           [14.5, ['Karting']],
+  'go kart':         [14.5, ['Karting']],
 };
 
 export class SearchBar {
@@ -290,17 +292,20 @@ export class SearchBar {
   }
 
   private initSearch(): void {
-    if (typeof mapkit !== 'undefined') {
+    // mapkit.js is only loaded (and initialized with a token) by the Apple provider
+    if (config.provider === 'apple' && typeof mapkit !== 'undefined') {
       this.search = new mapkit.Search();
     }
   }
 
   private buildCurrentRegion(): any {
+    // Center on the bounds (not the map center) so the region covers the whole
+    // rotated viewport, with a longitude span that survives the antimeridian
     const bounds = this.mapProvider.getBounds();
-    const center = this.mapProvider.getCenter();
+    const center = boundsCenter(bounds);
     const span = new mapkit.CoordinateSpan(
       bounds.north - bounds.south,
-      bounds.east - bounds.west
+      longitudeSpan(bounds)
     );
     return new mapkit.CoordinateRegion(
       new mapkit.Coordinate(center.lat, center.lng),
@@ -327,6 +332,7 @@ export class SearchBar {
       (error: any, data: any) => {
         this.autocompleteRequestId = null;
         if (error) {
+          console.warn('Autocomplete failed:', error);
           this.hideResults();
           return;
         }
@@ -394,14 +400,27 @@ export class SearchBar {
       this.mapProvider.filterPOIByCategories(categories);
       this.mapProvider.clearMarkers();
 
+      const currentZoom = this.mapProvider.getZoom();
+      const targetZoom = Math.max(currentZoom, minZoom);
+
+      // Without MapKit search, look for the categories in the current view
+      if (!this.search) {
+        this.searchInView(categories, (place) => {
+          this.mapProvider.setCenterAndZoom(place.lat, place.lng, targetZoom);
+        });
+        return;
+      }
+
       // Search for the category and navigate to the first result
       const region = this.buildCurrentRegion();
-      const currentZoom = this.mapProvider.getZoom();
       this.search.search(query, (error: any, data: any) => {
-        if (error || !data.places || data.places.length === 0) return;
+        if (error) {
+          console.warn('Search failed:', error);
+          return;
+        }
+        if (!data.places || data.places.length === 0) return;
         const place = data.places[0];
         // Use combined pan+zoom for single smooth animation
-        const targetZoom = Math.max(currentZoom, minZoom);
         this.mapProvider.setCenterAndZoom(place.coordinate.latitude, place.coordinate.longitude, targetZoom);
       }, { region });
       return;
@@ -411,9 +430,22 @@ export class SearchBar {
     this.clearPOIFilter(); // Show all POIs
     this.mapProvider.clearMarkers(); // Clear any existing search pins
 
+    // Without MapKit search, look for the query as a keyword in the current view
+    if (!this.search) {
+      this.searchInView([query], (place) => {
+        this.mapProvider.setCenterAndZoom(place.lat, place.lng, SEARCH_DEFAULT_ZOOM);
+        this.mapProvider.addMarkers([{ ...place, id: `search-${Date.now()}` }]);
+      });
+      return;
+    }
+
     const region = this.buildCurrentRegion();
     this.search.search(query, (error: any, data: any) => {
-      if (error || !data.places || data.places.length === 0) return;
+      if (error) {
+        console.warn('Search failed:', error);
+        return;
+      }
+      if (!data.places || data.places.length === 0) return;
 
       const place = data.places[0];
       this.mapProvider.setCenterAndZoom(place.coordinate.latitude, place.coordinate.longitude, SEARCH_DEFAULT_ZOOM);
@@ -429,6 +461,18 @@ export class SearchBar {
     }, { region });
   }
 
+  /**
+   * Find the first place matching terms in the current view with the provider's own
+   * POI search (categories or keywords), for providers without MapKit search.
+   */
+  private searchInView(terms: string[], onPlace: (place: MapMarker) => void): void {
+    this.mapProvider.searchPOIsInView(terms, 1)
+      .then((places) => {
+        if (places.length > 0) onPlace(places[0]);
+      })
+      .catch((error) => console.warn('POI search failed:', error));
+  }
+
   private clearPOIFilter(): void {
     this.mapProvider.clearPOIFilter();
   }
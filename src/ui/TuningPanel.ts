@@ -0,0 +1,474 @@
+import { GEAR_DIRECTIONS, GEAR_EDGE_MODES, ROTATION_MODES } from '../control';
+import { BooleanKey, RANGES, RangedKey, settings, SettingKey, Settings, StringKey } from '../settings';
+
+type FieldSpec =
+  | { kind: 'range'; key: RangedKey; step: number }
+  | { kind: 'toggle'; key: BooleanKey }
+  | { kind: 'select'; key: StringKey; options: readonly string[] }
+  | { kind: 'color'; key: StringKey }
+  | { kind: 'text'; key: StringKey };
+
+interface SectionSpec {
+  title: string;
+  fields: FieldSpec[];
+}
+
+const range = (key: RangedKey, step: number): FieldSpec => ({ kind: 'range', key, step });
+const toggle = (key: BooleanKey): FieldSpec => ({ kind: 'toggle', key });
+const select = (key: StringKey, options: readonly string[]): FieldSpec => ({ kind: 'select', key, options });
+const color = (key: StringKey): FieldSpec => ({ kind: 'color', key });
+const text = (key: StringKey): FieldSpec => ({ kind: 'text', key });
+
+// Grouped like control.ts. Slider ranges come from RANGES in settings.ts;
+// z-indices and layout-only numbers are left out.
+const SECTIONS: SectionSpec[] = [
+  {
+    title: 'Rotation',
+    fields: [
+      select('ROTATION_MODE', ROTATION_MODES),
+      select('GEAR_EDGE_MODE', GEAR_EDGE_MODES),
+      select('GEAR_DIRECTION_LEFT', GEAR_DIRECTIONS),
+      select('GEAR_DIRECTION_RIGHT', GEAR_DIRECTIONS),
+      select('GEAR_DIRECTION_TOP', GEAR_DIRECTIONS),
+      select('GEAR_DIRECTION_BOTTOM', GEAR_DIRECTIONS),
+      range('ROTATION_EDGE_THRESHOLD_RATIO', 0.5),
+      range('ROTATION_SPEED_DEG_PER_SEC', 5),
+      range('ROTATION_MAX_DT', 0.01),
+    ],
+  },
+  {
+    title: 'Inertia',
+    fields: [
+      range('INERTIA_TIME_CONSTANT_MS', 5),
+      range('INERTIA_MIN_VELOCITY', 0.005),
+      range('INERTIA_SAMPLE_WINDOW_MS', 10),
+      toggle('INERTIA_RUBBER_BAND'),
+      range('ROTATION_INERTIA_TIME_CONSTANT_MS', 5),
+      range('ROTATION_INERTIA_MIN_VELOCITY', 0.0005),
+      range('ZOOM_INERTIA_TIME_CONSTANT_MS', 5),
+      range('ZOOM_INERTIA_MIN_VELOCITY', 0.00001),
+    ],
+  },
+  {
+    title: 'Zoom',
+    fields: [
+      range('ZOOM_BLOCK_DURATION_MS', 10),
+      range('ZOOM_AREA_THRESHOLD', 50),
+      range('ZOOM_ALT1_THRESHOLD', 50),
+      range('ZOOM_RATE_COEFF', 1),
+      range('ZOOM_FULL_CIRCLES_MULT', 0.1),
+      range('ZOOM_WHEEL_SENSITIVITY', 0.0005),
+      range('ZOOM_PINCH_WHEEL_SENSITIVITY', 0.001),
+      range('WHEEL_LINE_HEIGHT_PX', 1),
+      range('WHEEL_MOUSE_MIN_DELTA_PX', 5),
+      range('WHEEL_GESTURE_GAP_MS', 10),
+      toggle('PINCH_AXIS_LOCK'),
+      range('PINCH_ZOOM_THRESHOLD', 0.01),
+      range('PINCH_ROTATION_THRESHOLD_DEG', 1),
+      range('WHIRL_ROTATE_GAIN', 0.1),
+      range('WHIRL_ROTATE_MIN_RADIUS_PX', 1),
+    ],
+  },
+  {
+    title: 'Touch',
+    fields: [
+      range('DOUBLE_TAP_THRESHOLD_MS', 10),
+      range('TAP_MAX_DURATION_MS', 10),
+      range('TAP_SLOP_PX', 1),
+      range('LONG_PRESS_DURATION_MS', 50),
+      range('QUICK_ZOOM_TAP_DISTANCE_PX', 5),
+      range('QUICK_ZOOM_DRAG_PX_PER_LEVEL', 10),
+      range('QUICK_ZOOM_STEP', 0.25),
+      range('QUICK_ZOOM_ANIMATION_MS', 10),
+    ],
+  },
+  {
+    title: 'Mouse & keyboard',
+    fields: [
+      range('MOUSE_ZOOM_AREA_THRESHOLD', 50),
+      range('MOUSE_ZOOM_ALT1_THRESHOLD', 50),
+      range('MOUSE_ZOOM_RATE_COEFF', 1),
+      range('MOUSE_ROTATION_DEG_PER_PX', 0.05),
+      range('KEYBOARD_PAN_SPEED_PX_PER_SEC', 10),
+      range('KEYBOARD_PAN_MAX_SPEED_MULT', 0.5),
+      range('KEYBOARD_PAN_ACCEL_MS', 50),
+      range('KEYBOARD_ZOOM_RATE', 0.25),
+      range('KEYBOARD_ROTATION_DEG_PER_SEC', 5),
+      range('KEYBOARD_MIN_PRESS_MS', 10),
+    ],
+  },
+  {
+    title: 'Visualization',
+    fields: [
+      range('TRAIL_DURATION_MS', 10),
+      range('TRAIL_RESAMPLE_SPACING_PX', 0.5),
+      range('TRAIL_CIRCLE_RADIUS', 1),
+      range('TRAIL_LINE_WIDTH', 0.5),
+      color('TRAIL_STROKE_COLOR'),
+      color('TRAIL_FILL_COLOR'),
+      color('TRAIL_TRIANGLE_COLOR_POSITIVE'),
+      color('TRAIL_TRIANGLE_COLOR_NEGATIVE'),
+      color('TRAIL_CIRCLE_COLOR_POSITIVE'),
+      color('TRAIL_CIRCLE_COLOR_NEGATIVE'),
+      color('TRAIL_THRESHOLD_COLOR'),
+      color('TRAIL_THRESHOLD_FILL_COLOR'),
+      color('TRAIL_ROTATE_COLOR'),
+      range('VIRTUAL_TOUCH_DURATION_MS', 100),
+      range('SPIRAL_BASE_RADIUS', 1),
+      range('SPIRAL_RADIUS_GROWTH', 0.5),
+      range('SPIRAL_SEGMENTS', 10),
+      range('SPIRAL_LINE_WIDTH', 0.5),
+      range('INDICATOR_CIRCLE_SCALE', 0.05),
+      range('INDICATOR_STROKE_WIDTH', 0.5),
+      text('ZOOM_TEXT_FONT'),
+      color('ZOOM_TEXT_COLOR'),
+    ],
+  },
+  {
+    title: 'Gear',
+    fields: [
+      range('GEAR_SIZE_PX', 4),
+      range('GEAR_MARGIN_RATIO', 0.01),
+      range('GEAR_CENTER_OFFSET_X', 0.5),
+      range('GEAR_CENTER_OFFSET_Y', 0.5),
+      color('GEAR_COLOR_ROTATION'),
+      toggle('GEAR_SYNC_WITH_MAP'),
+    ],
+  },
+  {
+    title: 'Edge',
+    fields: [
+      range('EDGE_BAR_GAP_PX', 1),
+      range('EDGE_BAR_WIDTH_DIVISOR', 4),
+      range('EDGE_BAR_OPACITY', 0.05),
+      color('EDGE_BAR_COLOR_RED'),
+      color('EDGE_BAR_COLOR_BLUE'),
+      range('EDGE_START_THRESHOLD_RATIO', 0.5),
+      range('EDGE_END_THRESHOLD_RATIO', 0.5),
+      range('EDGE_ROTATION_THRESHOLD_RATIO', 0.5),
+    ],
+  },
+];
+
+const EXPORT_FILE_NAME = 'whirl-zoom-settings.json';
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Parse '#rgb', '#rrggbb', 'rgb(...)' or 'rgba(...)'. Returns null for anything else.
+ */
+function parseColor(value: string): Rgba | null {
+  const hex = value.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: 1,
+    };
+  }
+  const rgb = value.trim().match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+  if (rgb) {
+    return { r: Number(rgb[1]), g: Number(rgb[2]), b: Number(rgb[3]), a: rgb[4] === undefined ? 1 : Number(rgb[4]) };
+  }
+  return null;
+}
+
+function toHex({ r, g, b }: Rgba): string {
+  return '#' + [r, g, b].map((c) => Math.round(c).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Number of decimals needed to show values on a slider with this step.
+ */
+function decimalsFor(step: number): number {
+  const [, fraction = ''] = String(step).split('.');
+  return fraction.length;
+}
+
+/**
+ * TuningPanel - Live editor for the runtime settings, opened from the hidden debug controls.
+ *
+ * One collapsible section per control.ts area with sliders, toggles, selects
+ * and color pickers. Every field has a reset-to-default button; the whole
+ * set can be exported to and imported from a JSON file to share a tuning.
+ * Calibrate fits the whirl thresholds to the user instead of by hand.
+ */
+export class TuningPanel {
+  private container: HTMLElement;
+  private panel: HTMLElement | null = null;
+  private status: HTMLElement | null = null;
+  private syncers = new Map<SettingKey, () => void>();
+  private unsubscribe: (() => void) | null = null;
+  private calibrationHandler: (() => void) | null = null;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.render();
+    this.unsubscribe = settings.onAnyChange((key) => this.syncers.get(key)?.());
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div id="tuning-panel" class="hidden" role="dialog" aria-label="Tuning">
+        <div class="tuning-header">
+          <span class="tuning-title">Tuning</span>
+          <button type="button" data-action="export">Export</button>
+          <button type="button" data-action="import">Import</button>
+          <button type="button" data-action="reset-all">Reset all</button>
+          <button type="button" data-action="calibrate">Calibrate</button>
+          <input type="file" accept="application/json,.json" hidden />
+        </div>
+        <div class="tuning-status" aria-live="polite"></div>
+        <div class="tuning-sections"></div>
+      </div>
+    `;
+
+    this.panel = this.container.querySelector('#tuning-panel');
+    this.status = this.container.querySelector('.tuning-status');
+    const sections = this.container.querySelector('.tuning-sections')!;
+    const fileInput = this.container.querySelector('input[type="file"]') as HTMLInputElement;
+
+    for (const section of SECTIONS) {
+      sections.appendChild(this.renderSection(section));
+    }
+
+    this.container.querySelector('[data-action="export"]')!.addEventListener('click', () => this.exportSettings());
+    this.container.querySelector('[data-action="import"]')!.addEventListener('click', () => fileInput.click());
+    this.container.querySelector('[data-action="reset-all"]')!.addEventListener('click', () => {
+      settings.resetAll();
+      this.setStatus('All settings reset to defaults');
+    });
+    this.container.querySelector('[data-action="calibrate"]')!.addEventListener('click', () => {
+      this.calibrationHandler?.();
+    });
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (file) {
+        this.importSettings(file);
+      }
+    });
+  }
+
+  private renderSection(section: SectionSpec): HTMLElement {
+    const details = document.createElement('details');
+    const summary = document.createElement('summary');
+    summary.textContent = section.title;
+    details.appendChild(summary);
+
+    for (const field of section.fields) {
+      details.appendChild(this.renderField(field));
+    }
+    return details;
+  }
+
+  private renderField(field: FieldSpec): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'tuning-field';
+
+    const label = document.createElement('span');
+    label.className = 'tuning-label';
+    label.textContent = field.key;
+    label.title = field.key;
+    row.appendChild(label);
+
+    const controls = document.createElement('div');
+    controls.className = 'tuning-controls';
+    row.appendChild(controls);
+    const sync = this.renderControl(field, controls);
+
+    const reset = document.createElement('button');
+    reset.type = 'button';
+    reset.className = 'tuning-reset';
+    reset.textContent = '↺';
+    reset.title = `Reset to ${String(settings.getDefault(field.key))}`;
+    reset.setAttribute('aria-label', `Reset ${field.key}`);
+    reset.addEventListener('click', () => settings.reset(field.key));
+    row.appendChild(reset);
+
+    const syncRow = () => {
+      sync();
+      reset.disabled = settings.isDefault(field.key);
+    };
+    syncRow();
+    this.syncers.set(field.key, syncRow);
+    return row;
+  }
+
+  /**
+   * Create the input(s) for a field. Returns a function that shows the current value.
+   */
+  private renderControl(field: FieldSpec, parent: HTMLElement): () => void {
+    switch (field.kind) {
+      case 'range': {
+        const { key, step } = field;
+        const [min, max] = RANGES[key];
+        const input = this.createInput('range', key);
+        input.min = String(min);
+        input.max = String(max);
+        input.step = String(step);
+        const readout = document.createElement('span');
+        readout.className = 'tuning-value';
+        parent.append(input, readout);
+
+        input.addEventListener('input', () => settings.set(key, Number(input.value)));
+        return () => {
+          const value = settings.get(key);
+          input.value = String(value);
+          readout.textContent = value.toFixed(decimalsFor(step));
+        };
+      }
+
+      case 'toggle': {
+        const { key } = field;
+        const input = this.createInput('checkbox', key);
+        parent.appendChild(input);
+        input.addEventListener('change', () => settings.set(key, input.checked));
+        return () => {
+          input.checked = settings.get(key);
+        };
+      }
+
+      case 'select': {
+        const { key, options } = field;
+        const input = document.createElement('select');
+        input.setAttribute('aria-label', key);
+        for (const option of options) {
+          input.add(new Option(option, option));
+        }
+        parent.appendChild(input);
+        input.addEventListener('change', () => settings.set(key, input.value as Settings[typeof key]));
+        return () => {
+          input.value = settings.get(key);
+        };
+      }
+
+      case 'color':
+        return this.renderColorControl(field.key, parent);
+
+      case 'text': {
+        const { key } = field;
+        const input = this.createInput('text', key);
+        parent.appendChild(input);
+        input.addEventListener('change', () => settings.set(key, input.value));
+        return () => {
+          input.value = settings.get(key);
+        };
+      }
+    }
+  }
+
+  /**
+   * Color picker, plus an opacity slider for rgba() colors. Keeps the setting's
+   * format: hex stays hex, rgba stays rgba. Unparseable colors get a text field.
+   */
+  private renderColorControl(key: StringKey, parent: HTMLElement): () => void {
+    if (!parseColor(settings.get(key))) {
+      const input = this.createInput('text', key);
+      parent.appendChild(input);
+      input.addEventListener('change', () => settings.set(key, input.value));
+      return () => {
+        input.value = settings.get(key);
+      };
+    }
+
+    const picker = this.createInput('color', key);
+    const alpha = this.createInput('range', `${key} opacity`);
+    alpha.min = '0';
+    alpha.max = '1';
+    alpha.step = '0.05';
+    parent.append(picker, alpha);
+
+    const write = () => {
+      const rgba = parseColor(picker.value)!;
+      if (settings.get(key).startsWith('#')) {
+        settings.set(key, picker.value);
+      } else {
+        settings.set(key, `rgba(${rgba.r}, ${rgba.g}, ${rgba.b}, ${Number(alpha.value)})`);
+      }
+    };
+    picker.addEventListener('input', write);
+    alpha.addEventListener('input', write);
+
+    return () => {
+      const value = settings.get(key);
+      const rgba = parseColor(value);
+      if (!rgba) return;
+      picker.value = toHex(rgba);
+      alpha.value = String(rgba.a);
+      alpha.hidden = value.startsWith('#');
+    };
+  }
+
+  private createInput(type: string, name: string): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = type;
+    input.setAttribute('aria-label', name);
+    return input;
+  }
+
+  private exportSettings(): void {
+    const json = JSON.stringify(settings.getAll(), null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = EXPORT_FILE_NAME;
+    link.click();
+    // Some browsers start the download asynchronously - keep the URL alive until then
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    this.setStatus(`Exported ${EXPORT_FILE_NAME}`);
+  }
+
+  /**
+   * Replace all settings with the file's: keys missing from the file go back to their defaults.
+   */
+  private async importSettings(file: File): Promise<void> {
+    let values: unknown;
+    try {
+      values = JSON.parse(await file.text());
+    } catch {
+      this.setStatus(`${file.name} is not valid JSON`);
+      return;
+    }
+    if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+      this.setStatus(`${file.name} is not a settings file`);
+      return;
+    }
+
+    settings.resetAll();
+    const accepted = settings.apply(values as Record<string, unknown>);
+    const skipped = Object.keys(values).length - accepted.length;
+    this.setStatus(`Imported ${accepted.length} settings` + (skipped > 0 ? `, skipped ${skipped} unknown or invalid` : ''));
+  }
+
+  private setStatus(message: string): void {
+    if (this.status) {
+      this.status.textContent = message;
+    }
+  }
+
+  setVisible(visible: boolean): void {
+    this.panel?.classList.toggle('hidden', !visible);
+  }
+
+  /**
+   * What the Calibrate button starts (the whirl calibration lives outside the panel).
+   */
+  setCalibrationHandler(handler: (() => void) | null): void {
+    this.calibrationHandler = handler;
+  }
+
+  destroy(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.syncers.clear();
+    this.container.innerHTML = '';
+  }
+}
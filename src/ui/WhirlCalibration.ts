@@ -0,0 +1,349 @@
+import {
+  CALIBRATION_DRAG_COUNT,
+  CALIBRATION_MAX_RATE_FACTOR,
+  CALIBRATION_TARGET_ZOOM_RATE,
+  CALIBRATION_WHIRL_COUNT,
+} from '../control';
+import { inputProfileFor } from '../interaction/InputProfile';
+import { WhirlMode } from '../interaction/recognizers/WhirlZoomRecognizer';
+import { TrailVisualizer } from '../visualization/TrailVisualizer';
+import { clampSetting, settings } from '../settings';
+
+const MIN_STROKE_PX = 40;              // Shorter strokes are taps, not whirls or drags
+const WHIRL_MIN_CURVINESS = 2;         // A whirl's path is at least this many times its start-to-end distance
+const DRAG_MIN_STRAIGHTNESS = 0.8;     // A drag's start-to-end distance is at least this fraction of its path
+const DRAG_FLOOR_RATIO = 0.01;         // Drags with no area at all still put a threshold 10x below the weakest whirl
+
+type StrokeKind = 'whirl' | 'drag';
+
+// Magnitudes of the values TrailVisualizer reported at one pointer move
+interface StrokeSample {
+  area: number;
+  compound: number;
+}
+
+interface Stroke {
+  kind: StrokeKind;
+  samples: StrokeSample[];
+}
+
+interface StrokeInProgress {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  lastX: number;
+  lastY: number;
+  startTime: number;
+  pathLength: number;
+  samples: StrokeSample[];
+}
+
+interface CalibrationFit {
+  // null where some drag got as far as some whirl, so no threshold separates them
+  areaThreshold: number | null;
+  alt1Threshold: number | null;
+  // null if no whirl got past its threshold
+  rateCoeff: number | null;
+}
+
+// Mouse strokes calibrate the mouse profile; touch and pen share the other one
+function isMouse(pointerType: string): boolean {
+  return pointerType === 'mouse';
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Threshold halfway between the strongest drag and the weakest whirl on a log scale
+ * (the values span orders of magnitude), or null if they overlap.
+ */
+function fitThreshold(whirlPeaks: number[], dragPeaks: number[]): number | null {
+  const weakestWhirl = Math.min(...whirlPeaks);
+  const strongestDrag = Math.max(...dragPeaks, weakestWhirl * DRAG_FLOOR_RATIO);
+  if (strongestDrag >= weakestWhirl) return null;
+  return Math.sqrt(weakestWhirl * strongestDrag);
+}
+
+/**
+ * Fit both thresholds, and the rate coefficient for the value the whirl zoom
+ * uses (compound in Alt1 mode, signed area otherwise), so that the median
+ * whirl past its threshold zooms at CALIBRATION_TARGET_ZOOM_RATE.
+ */
+function fitCalibration(
+  strokes: Stroke[],
+  alt1: boolean,
+  viewportSize: number,
+  currentThreshold: number,
+  defaultCoeff: number
+): CalibrationFit {
+  const peaks = (kind: StrokeKind, value: keyof StrokeSample) =>
+    strokes.filter((s) => s.kind === kind).map((s) => Math.max(...s.samples.map((sample) => sample[value])));
+
+  const areaThreshold = fitThreshold(peaks('whirl', 'area'), peaks('drag', 'area'));
+  const alt1Threshold = fitThreshold(peaks('whirl', 'compound'), peaks('drag', 'compound'));
+
+  // Same rate formula as WhirlZoomRecognizer: sqrt(value) / viewport size * coefficient
+  const value: keyof StrokeSample = alt1 ? 'compound' : 'area';
+  const threshold = (alt1 ? alt1Threshold : areaThreshold) ?? currentThreshold;
+  const zoomingValues = strokes
+    .filter((s) => s.kind === 'whirl')
+    .flatMap((s) => s.samples.map((sample) => sample[value]))
+    .filter((v) => v > threshold);
+
+  let rateCoeff: number | null = null;
+  if (zoomingValues.length > 0) {
+    const typical = median(zoomingValues.map(Math.sqrt)) / viewportSize;
+    rateCoeff = Math.min(
+      defaultCoeff * CALIBRATION_MAX_RATE_FACTOR,
+      Math.max(defaultCoeff / CALIBRATION_MAX_RATE_FACTOR, CALIBRATION_TARGET_ZOOM_RATE / typical)
+    );
+  }
+
+  return { areaThreshold, alt1Threshold, rateCoeff };
+}
+
+/**
+ * WhirlCalibration - Fits the whirl zoom thresholds and zoom rate to one user on one device.
+ *
+ * A full-screen overlay asks for a few whirls and then a few straight drags
+ * and records the signed-area and compound values TrailVisualizer reports
+ * for each, after the same guard-rail delay as a real drag. The fitted values
+ * go into the settings store, which persists them on this device; strokes
+ * made with a mouse calibrate the mouse thresholds and rate. A run sticks to
+ * the kind of pointer it started with and starts over if that changes.
+ */
+export class WhirlCalibration {
+  private container: HTMLElement;
+  private visualizer: TrailVisualizer;
+  private getWhirlMode: () => WhirlMode;
+  private overlay: HTMLElement | null = null;
+  private prompt: HTMLElement | null = null;
+  private result: HTMLElement | null = null;
+  private closeButton: HTMLButtonElement | null = null;
+
+  private strokes: Stroke[] = [];
+  private stroke: StrokeInProgress | null = null;
+  private pointerType = 'touch';
+  private wasVisualizing = false;
+
+  constructor(container: HTMLElement, visualizer: TrailVisualizer, getWhirlMode: () => WhirlMode) {
+    this.container = container;
+    this.visualizer = visualizer;
+    this.getWhirlMode = getWhirlMode;
+    this.render();
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div id="whirl-calibration" class="hidden" role="dialog" aria-label="Whirl calibration">
+        <div class="calibration-card">
+          <div class="calibration-title">Whirl calibration</div>
+          <div class="calibration-prompt" aria-live="polite"></div>
+          <pre class="calibration-result"></pre>
+          <button type="button" data-action="close">Cancel</button>
+        </div>
+      </div>
+    `;
+
+    this.overlay = this.container.querySelector('#whirl-calibration');
+    this.prompt = this.container.querySelector('.calibration-prompt');
+    this.result = this.container.querySelector('.calibration-result');
+    this.closeButton = this.container.querySelector('[data-action="close"]');
+    this.closeButton!.addEventListener('click', () => this.close());
+
+    this.overlay!.addEventListener('pointerdown', this.onPointerDown);
+    this.overlay!.addEventListener('pointermove', this.onPointerMove);
+    this.overlay!.addEventListener('pointerup', this.onPointerUp);
+    this.overlay!.addEventListener('pointercancel', this.onPointerCancel);
+  }
+
+  /**
+   * Open the overlay and start a new calibration.
+   */
+  start(): void {
+    if (!this.overlay || this.isActive()) return;
+    this.strokes = [];
+    this.stroke = null;
+    this.overlay.classList.remove('hidden');
+    this.closeButton!.textContent = 'Cancel';
+    this.result!.textContent = '';
+    this.showPrompt();
+
+    // Show the trail while calibrating
+    this.wasVisualizing = this.visualizer.isEnabled();
+    this.visualizer.setEnabled(true);
+  }
+
+  isActive(): boolean {
+    return this.overlay !== null && !this.overlay.classList.contains('hidden');
+  }
+
+  /**
+   * Close the overlay. Results are only applied once all strokes are drawn.
+   */
+  close(): void {
+    if (!this.isActive()) return;
+    this.overlay!.classList.add('hidden');
+    this.stroke = null;
+    if (!this.wasVisualizing) {
+      this.visualizer.setEnabled(false);
+    }
+  }
+
+  private expectedKind(): StrokeKind | null {
+    const whirls = this.strokes.filter((s) => s.kind === 'whirl').length;
+    if (whirls < CALIBRATION_WHIRL_COUNT) return 'whirl';
+    if (this.strokes.length - whirls < CALIBRATION_DRAG_COUNT) return 'drag';
+    return null;
+  }
+
+  private showPrompt(retry = ''): void {
+    const kind = this.expectedKind();
+    if (!kind || !this.prompt) return;
+    const done = this.strokes.filter((s) => s.kind === kind).length;
+    const text = kind === 'whirl'
+      ? `Circle as you would to zoom (${done + 1} of ${CALIBRATION_WHIRL_COUNT})`
+      : `Drag in a straight line as you would to pan (${done + 1} of ${CALIBRATION_DRAG_COUNT})`;
+    this.prompt.textContent = retry ? `${retry}. ${text}` : text;
+  }
+
+  private onPointerDown = (e: PointerEvent): void => {
+    const target = e.target as HTMLElement;
+    if (this.stroke || !this.expectedKind() || target.closest('.calibration-card')) return;
+    this.overlay!.setPointerCapture(e.pointerId);
+
+    if (this.strokes.length > 0 && isMouse(e.pointerType) !== isMouse(this.pointerType)) {
+      // Mouse and touch strokes can't be fitted together
+      this.strokes = [];
+      this.showPrompt('Switched input device, starting over');
+    }
+
+    const now = performance.now();
+    this.pointerType = e.pointerType;
+    this.stroke = {
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      lastX: e.clientX,
+      lastY: e.clientY,
+      startTime: now,
+      pathLength: 0,
+      samples: [],
+    };
+
+    // Record under the same conditions as a real drag: this device's thresholds and the guard-rail delay
+    const profile = inputProfileFor(e.pointerType);
+    this.visualizer.clear();
+    this.visualizer.setZoomThresholds(profile.zoomAreaThreshold, profile.zoomAlt1Threshold);
+    this.visualizer.setZoomActivated(false);
+    this.visualizer.setAlt1ZoomActivated(false);
+    this.visualizer.setZoomBlocked(false, now);
+    this.visualizer.addPoint(e.clientX, e.clientY);
+    this.visualizer.updateDragPoint(e.clientX, e.clientY);
+  };
+
+  private onPointerMove = (e: PointerEvent): void => {
+    const stroke = this.stroke;
+    if (!stroke || e.pointerId !== stroke.pointerId) return;
+
+    stroke.pathLength += Math.hypot(e.clientX - stroke.lastX, e.clientY - stroke.lastY);
+    stroke.lastX = e.clientX;
+    stroke.lastY = e.clientY;
+
+    this.visualizer.addPoint(e.clientX, e.clientY);
+    this.visualizer.updateDragPoint(e.clientX, e.clientY);
+    if (performance.now() - stroke.startTime < settings.get('ZOOM_BLOCK_DURATION_MS')) return;
+
+    stroke.samples.push({
+      area: Math.abs(this.visualizer.getSignedArea()),
+      compound: Math.abs(this.visualizer.getCompoundZoomValue()),
+    });
+  };
+
+  private onPointerUp = (e: PointerEvent): void => {
+    const stroke = this.stroke;
+    if (!stroke || e.pointerId !== stroke.pointerId) return;
+    this.stroke = null;
+    this.visualizer.clearDragPoint();
+
+    const kind = this.expectedKind();
+    if (!kind) return;
+
+    const distance = Math.hypot(stroke.lastX - stroke.startX, stroke.lastY - stroke.startY);
+    if (stroke.pathLength < MIN_STROKE_PX || stroke.samples.length === 0) {
+      this.showPrompt('Too short');
+      return;
+    }
+    if (kind === 'whirl' && stroke.pathLength < distance * WHIRL_MIN_CURVINESS) {
+      this.showPrompt('That looked like a drag');
+      return;
+    }
+    if (kind === 'drag' && distance < stroke.pathLength * DRAG_MIN_STRAIGHTNESS) {
+      this.showPrompt('That wasn\'t straight');
+      return;
+    }
+
+    this.strokes.push({ kind, samples: stroke.samples });
+    if (this.expectedKind()) {
+      this.showPrompt();
+    } else {
+      this.finish();
+    }
+  };
+
+  private onPointerCancel = (e: PointerEvent): void => {
+    if (this.stroke && e.pointerId === this.stroke.pointerId) {
+      this.stroke = null;
+      this.visualizer.clearDragPoint();
+    }
+  };
+
+  private finish(): void {
+    const mouse = isMouse(this.pointerType);
+    const areaKey = mouse ? 'MOUSE_ZOOM_AREA_THRESHOLD' : 'ZOOM_AREA_THRESHOLD';
+    const alt1Key = mouse ? 'MOUSE_ZOOM_ALT1_THRESHOLD' : 'ZOOM_ALT1_THRESHOLD';
+    const rateKey = mouse ? 'MOUSE_ZOOM_RATE_COEFF' : 'ZOOM_RATE_COEFF';
+    const alt1 = this.getWhirlMode() === 'alt1';
+
+    const rect = this.overlay!.getBoundingClientRect();
+    const fit = fitCalibration(
+      this.strokes,
+      alt1,
+      Math.min(rect.width, rect.height),
+      settings.get(alt1 ? alt1Key : areaKey),
+      settings.getDefault(rateKey)
+    );
+
+    const lines: string[] = [];
+    const apply = (key: typeof areaKey | typeof alt1Key | typeof rateKey, value: number | null, decimals: number) => {
+      const before = settings.get(key);
+      if (value === null) {
+        lines.push(`${key}: ${before} (unchanged)`);
+        return;
+      }
+      const rounded = clampSetting(key, Number(value.toFixed(decimals)));
+      settings.set(key, rounded);
+      lines.push(`${key}: ${before} → ${rounded}`);
+    };
+    apply(areaKey, fit.areaThreshold, 0);
+    apply(alt1Key, fit.alt1Threshold, 0);
+    apply(rateKey, fit.rateCoeff, 1);
+
+    const separated = fit.areaThreshold !== null && fit.alt1Threshold !== null;
+    this.prompt!.textContent = separated
+      ? 'Calibrated and saved on this device'
+      : 'Saved. Some drags looked like whirls, so not every threshold could be fitted';
+    this.result!.textContent = lines.join('\n');
+    this.closeButton!.textContent = 'Done';
+  }
+
+  destroy(): void {
+    this.close();
+    this.container.innerHTML = '';
+    this.overlay = null;
+  }
+}
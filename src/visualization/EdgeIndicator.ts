@@ -1,14 +1,4 @@
-import {
-  EDGE_BAR_GAP_PX,
-  EDGE_BAR_WIDTH_DIVISOR,
-  EDGE_BAR_Z_INDEX,
-  EDGE_BAR_OPACITY,
-  EDGE_BAR_COLOR_RED,
-  EDGE_BAR_COLOR_BLUE,
-  EDGE_START_THRESHOLD_RATIO,
-  EDGE_END_THRESHOLD_RATIO,
-  EDGE_ROTATION_THRESHOLD_RATIO,
-} from '../control';
+import { settings } from '../settings';
 
 /**
  * EdgeIndicator - Shows colored vertical bars sliding in from screen edges
@@ -16,6 +6,8 @@ import {
  *
  * Right edge: red bar on top, blue bar on bottom
  * Left edge: blue bar on top, red bar on bottom
+ *
+ * Bar styling and sizing follow the settings live.
  */
 export class EdgeIndicator {
   private container: HTMLElement;
@@ -26,7 +18,7 @@ export class EdgeIndicator {
   private leftTopBar: HTMLElement;
   private leftBottomBar: HTMLElement;
 
-  // Configuration uses constants from control.ts
+  private unsubscribers: Array<() => void> = [];
 
   // Current rotation rate (positive = CW, negative = CCW)
   private currentRotationRate: number = 0;
@@ -46,7 +38,8 @@ export class EdgeIndicator {
     this.leftTopBar = this.createBar('blue');
     this.leftBottomBar = this.createBar('red');
 
-    // Position bars
+    // Style and position bars
+    this.styleBars();
     this.positionBars();
 
     // Add to container
@@ -57,6 +50,15 @@ export class EdgeIndicator {
 
     // Handle resize
     window.addEventListener('resize', this.positionBars);
+
+    this.unsubscribers.push(
+      settings.on('EDGE_BAR_COLOR_RED', this.styleBars),
+      settings.on('EDGE_BAR_COLOR_BLUE', this.styleBars),
+      settings.on('EDGE_BAR_Z_INDEX', this.styleBars),
+      settings.on('EDGE_BAR_OPACITY', this.styleBars),
+      settings.on('EDGE_BAR_GAP_PX', this.positionBars),
+      settings.on('EDGE_BAR_WIDTH_DIVISOR', this.positionBars),
+    );
   }
 
   /**
@@ -70,19 +72,27 @@ export class EdgeIndicator {
 
   private createBar(color: 'red' | 'blue'): HTMLElement {
     const bar = document.createElement('div');
+    bar.dataset.color = color;
     bar.style.position = 'absolute';
-    bar.style.backgroundColor = color === 'red' ? EDGE_BAR_COLOR_RED : EDGE_BAR_COLOR_BLUE;
     bar.style.pointerEvents = 'none';
-    bar.style.zIndex = String(EDGE_BAR_Z_INDEX);
-    bar.style.opacity = String(EDGE_BAR_OPACITY);
     bar.style.transition = 'none'; // We'll animate via transform
     return bar;
   }
 
+  private styleBars = (): void => {
+    for (const bar of [this.rightTopBar, this.rightBottomBar, this.leftTopBar, this.leftBottomBar]) {
+      bar.style.backgroundColor = bar.dataset.color === 'red'
+        ? settings.get('EDGE_BAR_COLOR_RED')
+        : settings.get('EDGE_BAR_COLOR_BLUE');
+      bar.style.zIndex = String(settings.get('EDGE_BAR_Z_INDEX'));
+      bar.style.opacity = String(settings.get('EDGE_BAR_OPACITY'));
+    }
+  };
+
   private positionBars = (): void => {
     const rect = this.container.getBoundingClientRect();
-    const barWidth = Math.max(2, Math.floor(rect.width / EDGE_BAR_WIDTH_DIVISOR));
-    const halfHeight = (rect.height - EDGE_BAR_GAP_PX) / 2;
+    const barWidth = Math.max(2, Math.floor(rect.width / settings.get('EDGE_BAR_WIDTH_DIVISOR')));
+    const halfHeight = (rect.height - settings.get('EDGE_BAR_GAP_PX')) / 2;
 
     // Right side bars - positioned off-screen initially
     this.rightTopBar.style.right = `-${barWidth}px`;
@@ -120,11 +130,11 @@ export class EdgeIndicator {
     }
 
     const rect = this.container.getBoundingClientRect();
-    const barWidth = Math.max(2, Math.floor(rect.width / EDGE_BAR_WIDTH_DIVISOR));
+    const barWidth = Math.max(2, Math.floor(rect.width / settings.get('EDGE_BAR_WIDTH_DIVISOR')));
 
     // Calculate thresholds
-    const startThreshold = rect.width / EDGE_START_THRESHOLD_RATIO;
-    const endThreshold = rect.width / EDGE_END_THRESHOLD_RATIO;
+    const startThreshold = rect.width / settings.get('EDGE_START_THRESHOLD_RATIO');
+    const endThreshold = rect.width / settings.get('EDGE_END_THRESHOLD_RATIO');
 
     // Distance from edges (relative to container)
     const distanceFromRight = rect.right - fingerX;
@@ -156,7 +166,7 @@ export class EdgeIndicator {
     this.leftBottomBar.style.transform = `translateX(${barWidth - leftOffset}px)`;
 
     // Calculate rotation rate - full speed when within threshold from edge
-    const rotationThreshold = rect.width / EDGE_ROTATION_THRESHOLD_RATIO;
+    const rotationThreshold = rect.width / settings.get('EDGE_ROTATION_THRESHOLD_RATIO');
 
     const rightRotationActive = distanceFromRight <= rotationThreshold;
     const leftRotationActive = distanceFromLeft <= rotationThreshold;
@@ -239,6 +249,8 @@ export class EdgeIndicator {
   destroy(): void {
     this.stopRotationLoop();
     window.removeEventListener('resize', this.positionBars);
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
     this.rightTopBar.remove();
     this.rightBottomBar.remove();
     this.leftTopBar.remove();
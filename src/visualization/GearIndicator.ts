@@ -1,17 +1,13 @@
-import {
-  GEAR_SIZE_PX,
-  GEAR_MARGIN_RATIO,
-  GEAR_CENTER_OFFSET_X,
-  GEAR_CENTER_OFFSET_Y,
-  GEAR_Z_INDEX,
-  GEAR_COLOR_ROTATION,
-} from '../control';
+import { settings } from '../settings';
+import { clampFromEdges, edgeWithin, gearEdges, ScreenEdge } from '../interaction/gearEdges';
 
 /**
  * GearIndicator - Shows a green gear icon at the map anchor position
  * when the finger enters the rotation zone during single-finger drag.
  *
- * The gear appears instantly at full opacity and rotates with the map.
+ * The gear appears instantly at full opacity and rotates with the map, only
+ * near the edges that rotate (see setEdges). Size, center offset, color and
+ * z-index follow the settings live.
  */
 export class GearIndicator {
   private container: HTMLElement;
@@ -19,6 +15,8 @@ export class GearIndicator {
   private gearFillGroup: SVGGElement | null = null;
   private isVisible: boolean = false;
   private isInRotationZone: boolean = false;
+  private edges: readonly ScreenEdge[] = gearEdges();
+  private unsubscribers: Array<() => void> = [];
 
   // Gear SVG path data (without wrapper, for dynamic viewBox)
   private static readonly GEAR_PATHS = `
@@ -30,10 +28,11 @@ export class GearIndicator {
   // Generate SVG with adjusted viewBox based on center offset
   private static getGearSVG(): string {
     // Convert pixel offset to SVG coordinate offset (scale factor: 512/144)
-    const scale = 512 / GEAR_SIZE_PX;
-    const viewBoxX = -GEAR_CENTER_OFFSET_X * scale;
-    const viewBoxY = -GEAR_CENTER_OFFSET_Y * scale;
-    return `<svg width="${GEAR_SIZE_PX}" height="${GEAR_SIZE_PX}" viewBox="${viewBoxX} ${viewBoxY} 512 512" xmlns="http://www.w3.org/2000/svg">${GearIndicator.GEAR_PATHS}</svg>`;
+    const size = settings.get('GEAR_SIZE_PX');
+    const scale = 512 / size;
+    const viewBoxX = -settings.get('GEAR_CENTER_OFFSET_X') * scale;
+    const viewBoxY = -settings.get('GEAR_CENTER_OFFSET_Y') * scale;
+    return `<svg width="${size}" height="${size}" viewBox="${viewBoxX} ${viewBoxY} 512 512" xmlns="http://www.w3.org/2000/svg">${GearIndicator.GEAR_PATHS}</svg>`;
   }
 
   constructor(container: HTMLElement) {
@@ -41,18 +40,45 @@ export class GearIndicator {
 
     // Create the gear element
     this.gearElement = document.createElement('div');
-    this.gearElement.innerHTML = GearIndicator.getGearSVG();
+    this.renderGear();
     this.gearElement.style.position = 'absolute';
     this.gearElement.style.pointerEvents = 'none';
-    this.gearElement.style.zIndex = String(GEAR_Z_INDEX);
+    this.gearElement.style.zIndex = String(settings.get('GEAR_Z_INDEX'));
     this.gearElement.style.opacity = '0';
     this.gearElement.style.transform = 'translate(-50%, -50%)';
     // No transition - gear appears/disappears instantly
 
     this.container.appendChild(this.gearElement);
 
+    this.unsubscribers.push(
+      settings.on('GEAR_SIZE_PX', this.renderGear),
+      settings.on('GEAR_CENTER_OFFSET_X', this.renderGear),
+      settings.on('GEAR_CENTER_OFFSET_Y', this.renderGear),
+      settings.on('GEAR_COLOR_ROTATION', this.renderGear),
+      settings.on('GEAR_Z_INDEX', (zIndex) => {
+        this.gearElement.style.zIndex = String(zIndex);
+      }),
+    );
+  }
+
+  /**
+   * (Re)build the gear SVG from the current settings.
+   */
+  private renderGear = (): void => {
+    this.gearElement.innerHTML = GearIndicator.getGearSVG();
+
     // Get reference to the SVG fill group for color changes
     this.gearFillGroup = this.gearElement.querySelector('g');
+    if (this.isInRotationZone && this.gearFillGroup) {
+      this.gearFillGroup.setAttribute('fill', settings.get('GEAR_COLOR_ROTATION'));
+    }
+  };
+
+  /**
+   * Set the edges the gear appears at and is kept clear of
+   */
+  setEdges(edges: readonly ScreenEdge[]): void {
+    this.edges = edges;
   }
 
   /**
@@ -80,25 +106,20 @@ export class GearIndicator {
     const rect = this.container.getBoundingClientRect();
 
     // Gear radius and rolling radius (margin) based on gear size
-    const gearRadius = GEAR_SIZE_PX / 2;
-    const rollingRadius = GEAR_MARGIN_RATIO * gearRadius;
-
-    // Distance from left/right edges only (gear rotation only works on horizontal edges)
-    const distanceFromRight = rect.right - fingerX;
-    const distanceFromLeft = fingerX - rect.left;
-
-    // Find the minimum distance to left or right edge
-    const minDistance = Math.min(distanceFromRight, distanceFromLeft);
+    const gearRadius = settings.get('GEAR_SIZE_PX') / 2;
+    const rollingRadius = settings.get('GEAR_MARGIN_RATIO') * gearRadius;
 
     // Gear appears at full opacity only when in rotation zone (no fade-in)
-    const opacity = minDistance <= rollingRadius ? 1 : 0;
+    const edge = edgeWithin(fingerX, fingerY, rect, this.edges, rollingRadius);
+    const opacity = edge ? 1 : 0;
 
-    // Clamp gear X position so the rolling circle stays within the edges
-    const clampedX = Math.max(rollingRadius, Math.min(rect.width - rollingRadius, anchorScreenX));
+    // Clamp gear position so the rolling circle stays within the rotating edges
+    const bounds = { left: 0, top: 0, right: rect.width, bottom: rect.height };
+    const clamped = clampFromEdges(anchorScreenX, anchorScreenY, bounds, this.edges, rollingRadius);
 
-    // Update gear position (anchor position relative to container, clamped horizontally)
-    this.gearElement.style.left = `${clampedX}px`;
-    this.gearElement.style.top = `${anchorScreenY}px`;
+    // Update gear position (anchor position relative to container, clamped)
+    this.gearElement.style.left = `${clamped.x}px`;
+    this.gearElement.style.top = `${clamped.y}px`;
 
     // Update transform with centering and rotation
     this.gearElement.style.transform = `translate(-50%, -50%) rotate(${rotationDegrees}deg)`;
@@ -111,7 +132,7 @@ export class GearIndicator {
     if (!this.isInRotationZone && opacity > 0) {
       this.isInRotationZone = true;
       if (this.gearFillGroup) {
-        this.gearFillGroup.setAttribute('fill', GEAR_COLOR_ROTATION);
+        this.gearFillGroup.setAttribute('fill', settings.get('GEAR_COLOR_ROTATION'));
       }
     } else if (this.isInRotationZone && opacity === 0) {
       this.isInRotationZone = false;
@@ -137,6 +158,8 @@ export class GearIndicator {
    * Clean up the indicator
    */
   destroy(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
     this.gearElement.remove();
   }
 }
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { TrailBuffer } from './TrailBuffer';
+
+const SPACING = 4;
+const RADIUS = 80;
+const PERIOD_MS = 400;
+
+/**
+ * Trace a circle sampled at hz for durationMs and return the buffer and the final point.
+ */
+function traceCircle(hz: number, durationMs: number): { trail: TrailBuffer; last: { x: number; y: number } } {
+  const trail = new TrailBuffer();
+  let last = { x: 0, y: 0 };
+  for (let t = 0; t <= durationMs; t += 1000 / hz) {
+    const angle = 2 * Math.PI * t / PERIOD_MS;
+    last = { x: 400 + RADIUS * Math.cos(angle), y: 300 + RADIUS * Math.sin(angle) };
+    trail.add(last.x, last.y, t, SPACING);
+  }
+  return { trail, last };
+}
+
+describe('TrailBuffer', () => {
+  it('resamples the path at equal arc-length steps', () => {
+    const { trail } = traceCircle(60, 300);
+    for (let i = 0; i < trail.length - 1; i++) {
+      const p = trail.at(i);
+      const q = trail.at(i + 1);
+      expect(Math.hypot(q.x - p.x, q.y - p.y)).toBeLessThanOrEqual(SPACING + 1e-9);
+    }
+  });
+
+  it('gives the same area regardless of the sample rate', () => {
+    // Three quarters of a turn: the fan to the last point covers the traced
+    // sector plus the triangle between the center and the chord that closes it
+    const expected = (0.75 * Math.PI + 0.5) * RADIUS * RADIUS;
+    for (const hz of [60, 120, 240, 1000]) {
+      const { trail, last } = traceCircle(hz, 300);
+      // 60 Hz input cuts the circle's corners by about 1%
+      expect(Math.abs(trail.getSignedArea(last) / expected - 1)).toBeLessThan(0.015);
+    }
+  });
+
+  it('gives the same swept angle regardless of the sample rate', () => {
+    // Three quarters of a turn, clockwise on screen
+    const expected = 1.5 * Math.PI;
+    for (const hz of [60, 120, 240, 1000]) {
+      const { trail } = traceCircle(hz, 300);
+      // The first and last segments cut about half an input sample and half a
+      // resampling step off each end; that doesn't add up along the path
+      const endsAngle = 2 * Math.PI * (1000 / hz) / PERIOD_MS + SPACING / RADIUS;
+      expect(Math.abs(trail.getSweptAngle() - expected)).toBeLessThan(endsAngle);
+    }
+  });
+
+  it('sweeps no angle along a straight drag', () => {
+    const trail = new TrailBuffer();
+    for (let i = 0; i <= 50; i++) {
+      trail.add(i * 3, i * 2, i * 8, SPACING);
+    }
+    expect(trail.getSweptAngle()).toBeCloseTo(0, 9);
+  });
+
+  it('keeps its running sums in step with the stored points as they expire', () => {
+    const trail = new TrailBuffer();
+    let t = 0;
+    for (let i = 0; i < 5000; i++) {
+      t += 4;
+      trail.add(500 + 300 * Math.cos(i * 0.07), 400 + 200 * Math.sin(i * 0.05), t, 3);
+      trail.expire(t - 250);
+    }
+
+    const apex = { x: 10, y: 20 };
+    let area = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let swept = 0;
+    for (let i = 0; i < trail.length; i++) {
+      const p = trail.at(i);
+      sumX += p.x;
+      sumY += p.y;
+      if (i === trail.length - 1) continue;
+      const q = trail.at(i + 1);
+      area += 0.5 * ((q.x - p.x) * (apex.y - p.y) - (apex.x - p.x) * (q.y - p.y));
+      if (i === 0) continue;
+      const o = trail.at(i - 1);
+      let turn = Math.atan2(q.y - p.y, q.x - p.x) - Math.atan2(p.y - o.y, p.x - o.x);
+      turn -= 2 * Math.PI * Math.round(turn / (2 * Math.PI));
+      swept += turn;
+    }
+
+    expect(trail.getSignedArea(apex)).toBeCloseTo(area, 6);
+    const center = trail.getCenterOfMass()!;
+    expect(center.x).toBeCloseTo(sumX / trail.length, 6);
+    expect(center.y).toBeCloseTo(sumY / trail.length, 6);
+    expect(trail.getSweptAngle()).toBeCloseTo(swept, 6);
+  });
+
+  it('drops expired points and forgets everything on clear', () => {
+    const trail = new TrailBuffer();
+    trail.add(0, 0, 0, SPACING);
+    trail.add(40, 0, 100, SPACING);
+    expect(trail.length).toBe(11);
+    trail.expire(50);
+    expect(trail.at(0).timestamp).toBeGreaterThanOrEqual(50);
+    trail.clear();
+    expect(trail.length).toBe(0);
+    expect(trail.getCenterOfMass()).toBeNull();
+    expect(trail.add(5, 5, 200, SPACING)).toBe(1);
+  });
+
+  it('adds nothing for a spacing that would never advance', () => {
+    const trail = new TrailBuffer();
+    expect(trail.add(0, 0, 0, 0)).toBe(0);
+    trail.add(0, 0, 0, SPACING);
+    expect(trail.add(40, 0, 100, 0)).toBe(0);
+    expect(trail.add(80, 0, 200, -1)).toBe(0);
+    expect(trail.length).toBe(1);
+  });
+});
@@ -0,0 +1,198 @@
+export interface TrailPoint {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+// A stored point, with how far the path's direction turned at the point before it
+interface StoredPoint extends TrailPoint {
+  turn: number;
+}
+
+const INITIAL_CAPACITY = 128;
+
+function cross(a: TrailPoint, b: { x: number; y: number }): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+/**
+ * Angle (radians) between the directions a→b and b→c; positive = clockwise on screen.
+ */
+function turnAngle(a: TrailPoint, b: TrailPoint, c: TrailPoint): number {
+  const d1 = { x: b.x - a.x, y: b.y - a.y };
+  const d2 = { x: c.x - b.x, y: c.y - b.y };
+  return Math.atan2(d1.x * d2.y - d1.y * d2.x, d1.x * d2.x + d1.y * d2.y);
+}
+
+/**
+ * TrailBuffer - The finger's recent path, resampled at equal arc-length steps.
+ *
+ * Input positions are interpolated into points a fixed distance apart along
+ * the path, so a 240 Hz digitizer or coalesced events give the same points
+ * as a 60 Hz one. Points live in a ring buffer (grown by doubling) and
+ * expire oldest-first, and the shoelace sum, coordinate sums and turning
+ * sum are kept up to date as points come and go: adding, expiring, the
+ * signed area, the center of mass and the swept angle are all O(1) amortized.
+ */
+export class TrailBuffer {
+  private points: StoredPoint[] = new Array(INITIAL_CAPACITY);
+  private start = 0;
+  private count = 0;
+
+  // Last raw input position, and the path length walked since the last resampled point
+  private lastInput: TrailPoint | null = null;
+  private carry = 0;
+
+  // Running sums over the stored points
+  private crossSum = 0; // Sum of cross(p[i], p[i + 1])
+  private sumX = 0;
+  private sumY = 0;
+  private turnSum = 0; // Sum of p[i].turn over p[2..]
+
+  get length(): number {
+    return this.count;
+  }
+
+  /**
+   * The i-th point, oldest first.
+   */
+  at(i: number): TrailPoint {
+    return this.points[(this.start + i) % this.points.length];
+  }
+
+  /**
+   * Extend the path to (x, y), adding a point every spacing pixels along the way.
+   * The first position after clear() is always added. Returns the number of points added.
+   */
+  add(x: number, y: number, timestamp: number, spacing: number): number {
+    // A non-positive spacing would never finish walking the segment
+    if (!(spacing > 0)) return 0;
+
+    const last = this.lastInput;
+    this.lastInput = { x, y, timestamp };
+    if (!last) {
+      this.carry = 0;
+      this.push({ x, y, timestamp });
+      return 1;
+    }
+
+    const segmentLength = Math.hypot(x - last.x, y - last.y);
+    if (segmentLength === 0) return 0;
+
+    let added = 0;
+    let walked = spacing - this.carry;
+    while (walked <= segmentLength) {
+      const t = walked / segmentLength;
+      this.push({
+        x: last.x + (x - last.x) * t,
+        y: last.y + (y - last.y) * t,
+        timestamp: last.timestamp + (timestamp - last.timestamp) * t,
+      });
+      added++;
+      walked += spacing;
+    }
+    this.carry = segmentLength - (walked - spacing);
+    return added;
+  }
+
+  /**
+   * Drop the points older than timestamp.
+   */
+  expire(timestamp: number): void {
+    while (this.count > 0 && this.at(0).timestamp < timestamp) {
+      this.shift();
+    }
+  }
+
+  /**
+   * Forget the path, including the last input position.
+   */
+  clear(): void {
+    this.start = 0;
+    this.count = 0;
+    this.lastInput = null;
+    this.carry = 0;
+    this.crossSum = 0;
+    this.sumX = 0;
+    this.sumY = 0;
+    this.turnSum = 0;
+  }
+
+  /**
+   * Sum of the signed areas of the triangles from each segment to apex
+   * (positive = clockwise in screen coordinates, y down).
+   */
+  getSignedArea(apex: { x: number; y: number }): number {
+    if (this.count < 2) return 0;
+    // Sum of cross(p[i+1] - p[i], apex - p[i]) telescopes to the shoelace sum plus a closing term
+    const first = this.at(0);
+    const last = this.at(this.count - 1);
+    return 0.5 * (this.crossSum + cross(last, apex) - cross(first, apex));
+  }
+
+  /**
+   * Mean of the points - with equal spacing, the centroid of the path itself.
+   */
+  getCenterOfMass(): { x: number; y: number } | null {
+    if (this.count === 0) return null;
+    return { x: this.sumX / this.count, y: this.sumY / this.count };
+  }
+
+  /**
+   * How far (radians) the path's direction turned from its first segment to
+   * its last; positive = clockwise on screen. For a whirl this is the angle
+   * circled, wherever its center is.
+   */
+  getSweptAngle(): number {
+    return this.count < 3 ? 0 : this.turnSum;
+  }
+
+  private push(point: TrailPoint): void {
+    if (this.count === this.points.length) {
+      this.grow();
+    }
+    let turn = 0;
+    if (this.count > 0) {
+      this.crossSum += cross(this.at(this.count - 1), point);
+    }
+    if (this.count > 1) {
+      turn = turnAngle(this.at(this.count - 2), this.at(this.count - 1), point);
+      this.turnSum += turn;
+    }
+    this.points[(this.start + this.count) % this.points.length] = { ...point, turn };
+    this.count++;
+    this.sumX += point.x;
+    this.sumY += point.y;
+  }
+
+  private shift(): void {
+    const oldest = this.at(0);
+    if (this.count > 1) {
+      this.crossSum -= cross(oldest, this.at(1));
+    }
+    if (this.count > 2) {
+      // The second point is about to become the first, so the turn there no longer counts
+      this.turnSum -= this.points[(this.start + 2) % this.points.length].turn;
+    }
+    this.start = (this.start + 1) % this.points.length;
+    this.count--;
+    this.sumX -= oldest.x;
+    this.sumY -= oldest.y;
+    if (this.count === 0) {
+      // Nothing left to be off by - drop any accumulated rounding error
+      this.crossSum = 0;
+      this.sumX = 0;
+      this.sumY = 0;
+      this.turnSum = 0;
+    }
+  }
+
+  private grow(): void {
+    const points = new Array<StoredPoint>(this.points.length * 2);
+    for (let i = 0; i < this.count; i++) {
+      points[i] = this.points[(this.start + i) % this.points.length];
+    }
+    this.points = points;
+    this.start = 0;
+  }
+}
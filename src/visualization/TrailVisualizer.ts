@@ -1,40 +1,5 @@
-import {
-  TRAIL_DURATION_MS,
-  VIRTUAL_TOUCH_DURATION_MS,
-  TRAIL_CIRCLE_RADIUS,
-  TRAIL_LINE_WIDTH,
-  TRAIL_STROKE_COLOR,
-  TRAIL_FILL_COLOR,
-  TRAIL_TRIANGLE_COLOR_POSITIVE,
-  TRAIL_TRIANGLE_COLOR_NEGATIVE,
-  TRAIL_CIRCLE_COLOR_POSITIVE,
-  TRAIL_CIRCLE_COLOR_NEGATIVE,
-  TRAIL_THRESHOLD_COLOR,
-  TRAIL_THRESHOLD_FILL_COLOR,
-  ZOOM_AREA_THRESHOLD,
-  ZOOM_ALT1_THRESHOLD,
-  ZOOM_FULL_CIRCLES_MULT,
-  ZOOM_BLOCK_DURATION_MS,
-  SPIRAL_BASE_RADIUS,
-  SPIRAL_RADIUS_GROWTH,
-  SPIRAL_SEGMENTS,
-  SPIRAL_LINE_WIDTH,
-  SPIRAL_START_ANGLE,
-  AREA_CIRCLE_X_RATIO,
-  PRODUCT_CIRCLE_X_RATIO,
-  INDICATOR_CIRCLE_DEFAULT_Y,
-  INDICATOR_CIRCLE_SCALE,
-  INDICATOR_STROKE_WIDTH,
-  ZOOM_TEXT_FONT,
-  ZOOM_TEXT_COLOR,
-  ZOOM_TEXT_X_OFFSET,
-} from '../control';
-
-interface TrailPoint {
-  x: number;
-  y: number;
-  timestamp: number;
-}
+import { settings } from '../settings';
+import { TrailBuffer, TrailPoint } from './TrailBuffer';
 
 interface DragPoint {
   x: number;
@@ -51,18 +16,25 @@ export class TrailVisualizer {
 
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
-  private trail: TrailPoint[] = [];
+  private trail = new TrailBuffer();
   private animationId: number | null = null;
   private enabled: boolean = false;
   private dragPoint: DragPoint | null = null;
   private virtualTouchPoint: VirtualTouchPoint | null = null;
   private zoomActivated: boolean = false;
   private alt1ZoomActivated: boolean = false;
-  private zoomGetter: (() => number) | null = null;
+  private zoomLevel: number | null = null;
+
+  // Whirl-to-rotate: the dial replaces the zoom circles in rotate mode
+  private rotateMode: boolean = false;
+  private whirlRotating: boolean = false;
+  private whirlRotationDegrees: number = 0;
 
   // Zoom block state - computed dynamically based on rotation and time
   private isRotating: boolean = false;
   private dragStartTime: number = 0;
+  private zoomAreaThreshold: number = settings.get('ZOOM_AREA_THRESHOLD');
+  private zoomAlt1Threshold: number = settings.get('ZOOM_ALT1_THRESHOLD');
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -77,8 +49,8 @@ export class TrailVisualizer {
     window.addEventListener('resize', () => this.resizeCanvas());
 
     // Configure drawing style
-    this.ctx.strokeStyle = TRAIL_STROKE_COLOR;
-    this.ctx.lineWidth = TRAIL_LINE_WIDTH;
+    this.ctx.strokeStyle = settings.get('TRAIL_STROKE_COLOR');
+    this.ctx.lineWidth = settings.get('TRAIL_LINE_WIDTH');
     this.ctx.lineCap = 'round';
     this.ctx.lineJoin = 'round';
   }
@@ -88,8 +60,8 @@ export class TrailVisualizer {
     this.canvas.height = window.innerHeight;
 
     // Reapply styles after resize
-    this.ctx.strokeStyle = TRAIL_STROKE_COLOR;
-    this.ctx.lineWidth = TRAIL_LINE_WIDTH;
+    this.ctx.strokeStyle = settings.get('TRAIL_STROKE_COLOR');
+    this.ctx.lineWidth = settings.get('TRAIL_LINE_WIDTH');
     this.ctx.lineCap = 'round';
     this.ctx.lineJoin = 'round';
   }
@@ -108,19 +80,22 @@ export class TrailVisualizer {
     return this.enabled;
   }
 
-  addPoint(x: number, y: number): void {
+  /**
+   * Extend the trail to (x, y). Returns the number of trail points added (see TrailBuffer.add).
+   */
+  addPoint(x: number, y: number): number {
     const now = performance.now();
 
     // During zoom block period, don't accumulate trail - only keep current point
     if (this.isZoomBlocked()) {
-      this.trail = [];
+      this.trail.clear();
     } else {
       // Remove old points to keep trail bounded (even when not visualizing)
-      this.trail = this.trail.filter(point => now - point.timestamp <= TRAIL_DURATION_MS);
+      this.trail.expire(now - settings.get('TRAIL_DURATION_MS'));
     }
 
-    this.trail.push({ x, y, timestamp: now });
     // Note: dragPoint is now updated separately via updateDragPoint() for low-latency rendering
+    return this.trail.add(x, y, now, settings.get('TRAIL_RESAMPLE_SPACING_PX'));
   }
 
   clearDragPoint(): void {
@@ -159,11 +134,7 @@ export class TrailVisualizer {
     // Add trail point at the virtual touch position
     if (this.enabled) {
       const now = performance.now();
-      this.trail.push({
-        x: this.virtualTouchPoint.x,
-        y: this.virtualTouchPoint.y,
-        timestamp: now
-      });
+      this.trail.add(this.virtualTouchPoint.x, this.virtualTouchPoint.y, now, settings.get('TRAIL_RESAMPLE_SPACING_PX'));
     }
   }
 
@@ -191,63 +162,56 @@ export class TrailVisualizer {
 
   getSignedArea(): number {
     const currentPoint = this.dragPoint || this.virtualTouchPoint;
-    let totalSignedArea = 0;
+    if (!currentPoint) return 0;
 
-    if (currentPoint && this.trail.length >= 2) {
-      for (let i = 0; i < this.trail.length - 1; i++) {
-        const p1 = this.trail[i];
-        const p2 = this.trail[i + 1];
-        const p3 = currentPoint;
-
-        // Calculate signed area using cross product
-        const signedArea = 0.5 * ((p2.x - p1.x) * (p3.y - p1.y) - (p3.x - p1.x) * (p2.y - p1.y));
-        totalSignedArea += signedArea;
-      }
-    }
-
-    return totalSignedArea;
+    // Triangles from adjacent trail points to the current point
+    return this.trail.getSignedArea(currentPoint);
   }
 
   private getCenterOfMass(): { x: number; y: number } | null {
-    if (this.trail.length === 0) return null;
+    return this.trail.getCenterOfMass();
+  }
 
-    let sumX = 0;
-    let sumY = 0;
-    for (const point of this.trail) {
-      sumX += point.x;
-      sumY += point.y;
-    }
+  /**
+   * Angle (radians) swept from p1 to p2 as seen from center; positive = clockwise on screen.
+   */
+  private static angleAround(center: { x: number; y: number }, p1: TrailPoint, p2: TrailPoint): number {
+    // Calculate angles from center of mass to each point
+    const angle1 = Math.atan2(p1.y - center.y, p1.x - center.x);
+    const angle2 = Math.atan2(p2.y - center.y, p2.x - center.x);
 
-    return {
-      x: sumX / this.trail.length,
-      y: sumY / this.trail.length
-    };
+    // Calculate angle difference, handling wrap-around
+    let angleDiff = angle2 - angle1;
+
+    // Normalize to [-PI, PI]
+    while (angleDiff > Math.PI) angleDiff -= 2 * Math.PI;
+    while (angleDiff < -Math.PI) angleDiff += 2 * Math.PI;
+
+    return angleDiff;
   }
 
   getSweptAngle(): number {
-    if (this.trail.length < 2) return 0;
+    return this.trail.getSweptAngle();
+  }
 
+  /**
+   * Angle (radians) swept by the newest `segments` trail segments around the trail's center
+   * of mass - pass what addPoint returned to get the angle that call added. Summed over a
+   * whirl this is how far the finger circled. Segments with an end within minRadius of the
+   * center, where the angle is mostly noise, don't count.
+   */
+  getRecentSweptAngle(segments: number, minRadius: number): number {
     const center = this.getCenterOfMass();
     if (!center) return 0;
 
     let sweptAngle = 0;
-
-    for (let i = 0; i < this.trail.length - 1; i++) {
-      const p1 = this.trail[i];
-      const p2 = this.trail[i + 1];
-
-      // Calculate angles from center of mass to each point
-      const angle1 = Math.atan2(p1.y - center.y, p1.x - center.x);
-      const angle2 = Math.atan2(p2.y - center.y, p2.x - center.x);
-
-      // Calculate angle difference, handling wrap-around
-      let angleDiff = angle2 - angle1;
-
-      // Normalize to [-PI, PI]
-      while (angleDiff > Math.PI) angleDiff -= 2 * Math.PI;
-      while (angleDiff < -Math.PI) angleDiff += 2 * Math.PI;
-
-      sweptAngle += angleDiff;
+    const first = Math.max(1, this.trail.length - segments);
+    for (let i = first; i < this.trail.length; i++) {
+      const p1 = this.trail.at(i - 1);
+      const p2 = this.trail.at(i);
+      if (Math.hypot(p1.x - center.x, p1.y - center.y) < minRadius) continue;
+      if (Math.hypot(p2.x - center.x, p2.y - center.y) < minRadius) continue;
+      sweptAngle += TrailVisualizer.angleAround(center, p1, p2);
     }
 
     return sweptAngle;
@@ -263,7 +227,8 @@ export class TrailVisualizer {
     const signedArea = this.getSignedArea();
     const fullCircles = this.getFullCircles();
     const signOfArea = signedArea >= 0 ? 1 : -1;
-    const compoundValMult = ZOOM_FULL_CIRCLES_MULT * ZOOM_FULL_CIRCLES_MULT;
+    const fullCirclesMult = settings.get('ZOOM_FULL_CIRCLES_MULT');
+    const compoundValMult = fullCirclesMult * fullCirclesMult;
     return signedArea * fullCircles * compoundValMult * signOfArea;
   }
 
@@ -275,37 +240,63 @@ export class TrailVisualizer {
     this.alt1ZoomActivated = activated;
   }
 
+  /**
+   * Show the whirl-to-rotate dial instead of the zoom threshold circles.
+   */
+  setRotateMode(enabled: boolean): void {
+    this.rotateMode = enabled;
+  }
+
+  /**
+   * Whether whirl-to-rotate is turning the map, and by how much so far.
+   */
+  setWhirlRotation(rotating: boolean, degrees: number): void {
+    this.whirlRotating = rotating;
+    this.whirlRotationDegrees = degrees;
+  }
+
+  /**
+   * Set the whirl zoom thresholds drawn as the green circles (they depend on the input device).
+   */
+  setZoomThresholds(areaThreshold: number, alt1Threshold: number): void {
+    this.zoomAreaThreshold = areaThreshold;
+    this.zoomAlt1Threshold = alt1Threshold;
+  }
+
   setZoomBlocked(isRotating: boolean, dragStartTime: number): void {
     this.isRotating = isRotating;
     this.dragStartTime = dragStartTime;
   }
 
   private isZoomBlocked(): boolean {
-    return this.isRotating || (performance.now() - this.dragStartTime < ZOOM_BLOCK_DURATION_MS);
+    return this.isRotating || (performance.now() - this.dragStartTime < settings.get('ZOOM_BLOCK_DURATION_MS'));
   }
 
-  setZoomGetter(getter: () => number): void {
-    this.zoomGetter = getter;
+  /**
+   * Update the displayed zoom level (fed from the map's camera events).
+   */
+  setZoomLevel(zoom: number): void {
+    this.zoomLevel = zoom;
   }
 
   private drawSpiralArc(centerX: number, centerY: number, fullCircles: number): void {
     if (fullCircles === 0) return;
 
-    const baseRadius = SPIRAL_BASE_RADIUS;
-    const radiusGrowth = SPIRAL_RADIUS_GROWTH;
-    const segments = SPIRAL_SEGMENTS;
+    const baseRadius = settings.get('SPIRAL_BASE_RADIUS');
+    const radiusGrowth = settings.get('SPIRAL_RADIUS_GROWTH');
+    const segments = settings.get('SPIRAL_SEGMENTS');
 
     // Positive fullCircles = clockwise = red
     // Negative fullCircles = counter-clockwise = blue
     const isClockwise = fullCircles > 0;
-    const color = isClockwise ? TRAIL_CIRCLE_COLOR_POSITIVE : TRAIL_CIRCLE_COLOR_NEGATIVE;
+    const color = isClockwise ? settings.get('TRAIL_CIRCLE_COLOR_POSITIVE') : settings.get('TRAIL_CIRCLE_COLOR_NEGATIVE');
     const absFullCircles = Math.abs(fullCircles);
 
     // Total angle to sweep (in radians)
     const totalAngle = absFullCircles * 2 * Math.PI;
 
     this.ctx.strokeStyle = color;
-    this.ctx.lineWidth = SPIRAL_LINE_WIDTH;
+    this.ctx.lineWidth = settings.get('SPIRAL_LINE_WIDTH');
     this.ctx.beginPath();
 
     for (let i = 0; i <= segments; i++) {
@@ -314,7 +305,7 @@ export class TrailVisualizer {
 
       // For clockwise (positive), start at top and go clockwise (negative angle direction)
       // For counter-clockwise (negative), start at top and go counter-clockwise (positive angle direction)
-      const startAngle = SPIRAL_START_ANGLE;
+      const startAngle = settings.get('SPIRAL_START_ANGLE');
       const currentAngle = isClockwise ? startAngle + angle : startAngle - angle;
 
       // Spiral: radius increases with angle
@@ -333,6 +324,33 @@ export class TrailVisualizer {
     this.ctx.stroke();
   }
 
+  /**
+   * Dial for whirl-to-rotate: a green ring while waiting for the modifier or long press,
+   * then a wedge showing how far the map has turned (clockwise from the top).
+   */
+  private drawRotateDial(centerX: number, centerY: number): void {
+    const radius = settings.get('SPIRAL_BASE_RADIUS');
+    const color = this.whirlRotating ? settings.get('TRAIL_ROTATE_COLOR') : settings.get('TRAIL_THRESHOLD_COLOR');
+
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = settings.get('INDICATOR_STROKE_WIDTH');
+    this.ctx.beginPath();
+    this.ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    this.ctx.stroke();
+
+    if (!this.whirlRotating) return;
+
+    // Whole turns wrap around
+    const startAngle = settings.get('SPIRAL_START_ANGLE');
+    const sweep = (this.whirlRotationDegrees % 360) * Math.PI / 180;
+    this.ctx.fillStyle = color;
+    this.ctx.beginPath();
+    this.ctx.moveTo(centerX, centerY);
+    this.ctx.arc(centerX, centerY, radius, startAngle, startAngle + sweep, sweep < 0);
+    this.ctx.closePath();
+    this.ctx.fill();
+  }
+
   private draw(): void {
     // Clear the canvas
     this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
@@ -342,10 +360,10 @@ export class TrailVisualizer {
     const now = performance.now();
 
     // Remove old points from trail
-    this.trail = this.trail.filter(point => now - point.timestamp <= TRAIL_DURATION_MS);
+    this.trail.expire(now - settings.get('TRAIL_DURATION_MS'));
 
     // Check if virtual touch point has expired
-    if (this.virtualTouchPoint && now - this.virtualTouchPoint.timestamp > VIRTUAL_TOUCH_DURATION_MS) {
+    if (this.virtualTouchPoint && now - this.virtualTouchPoint.timestamp > settings.get('VIRTUAL_TOUCH_DURATION_MS')) {
       this.virtualTouchPoint = null;
     }
 
@@ -353,11 +371,12 @@ export class TrailVisualizer {
     const currentPoint = this.dragPoint || this.virtualTouchPoint;
 
     // Draw triangles from adjacent trail points to the current point
+    // (not in rotate mode, where the area doesn't drive anything)
     const totalSignedArea = this.getSignedArea();
-    if (currentPoint && this.trail.length >= 2) {
+    if (currentPoint && this.trail.length >= 2 && !this.rotateMode) {
       for (let i = 0; i < this.trail.length - 1; i++) {
-        const p1 = this.trail[i];
-        const p2 = this.trail[i + 1];
+        const p1 = this.trail.at(i);
+        const p2 = this.trail.at(i + 1);
         const p3 = currentPoint;
 
         // Calculate signed area using cross product
@@ -366,7 +385,7 @@ export class TrailVisualizer {
 
         // Choose color based on signed area
         // Positive (counterclockwise) = red, Negative (clockwise) = blue
-        this.ctx.fillStyle = signedArea > 0 ? TRAIL_TRIANGLE_COLOR_POSITIVE : TRAIL_TRIANGLE_COLOR_NEGATIVE;
+        this.ctx.fillStyle = signedArea > 0 ? settings.get('TRAIL_TRIANGLE_COLOR_POSITIVE') : settings.get('TRAIL_TRIANGLE_COLOR_NEGATIVE');
 
         // Draw filled triangle
         this.ctx.beginPath();
@@ -378,27 +397,48 @@ export class TrailVisualizer {
       }
     }
 
-    // Draw the trail
+    // Draw the trail (in the rotate color while whirl-to-rotate turns the map)
     if (this.trail.length >= 2) {
-      this.ctx.strokeStyle = TRAIL_STROKE_COLOR;
-      this.ctx.lineWidth = TRAIL_LINE_WIDTH;
+      this.ctx.strokeStyle = this.whirlRotating ? settings.get('TRAIL_ROTATE_COLOR') : settings.get('TRAIL_STROKE_COLOR');
+      this.ctx.lineWidth = settings.get('TRAIL_LINE_WIDTH');
       this.ctx.beginPath();
-      this.ctx.moveTo(this.trail[0].x, this.trail[0].y);
+      this.ctx.moveTo(this.trail.at(0).x, this.trail.at(0).y);
 
       for (let i = 1; i < this.trail.length; i++) {
-        this.ctx.lineTo(this.trail[i].x, this.trail[i].y);
+        const point = this.trail.at(i);
+        this.ctx.lineTo(point.x, point.y);
       }
 
       this.ctx.stroke();
     }
 
-    // Draw area circles - positioned at 1/3 width, vertically aligned with visualize checkbox
-    if (currentPoint) {
+    // Mark the center the finger circles around
+    if (this.whirlRotating) {
+      const center = this.getCenterOfMass();
+      if (center) {
+        this.ctx.beginPath();
+        this.ctx.arc(center.x, center.y, settings.get('TRAIL_CIRCLE_RADIUS'), 0, Math.PI * 2);
+        this.ctx.fillStyle = settings.get('TRAIL_ROTATE_COLOR');
+        this.ctx.fill();
+      }
+    }
+
+    // Draw indicator circles - positioned at 1/3 width, vertically aligned with visualize checkbox
+    // (the dial in rotate mode, the area circles otherwise)
+    if (currentPoint && this.rotateMode) {
+      const visualizeToggle = document.getElementById('visualize-toggle');
+      let dialY = settings.get('INDICATOR_CIRCLE_DEFAULT_Y');
+      if (visualizeToggle) {
+        const rect = visualizeToggle.getBoundingClientRect();
+        dialY = rect.top + rect.height / 2;
+      }
+      this.drawRotateDial(this.canvas.width / settings.get('AREA_CIRCLE_X_RATIO'), dialY);
+    } else if (currentPoint) {
       // Get position: at 1/3 width, vertically aligned with visualize checkbox
       const visualizeToggle = document.getElementById('visualize-toggle');
-      const leftCircleX = this.canvas.width / AREA_CIRCLE_X_RATIO;
-      const rightCircleX = this.canvas.width * 2 / AREA_CIRCLE_X_RATIO;
-      let circleY = INDICATOR_CIRCLE_DEFAULT_Y;
+      const leftCircleX = this.canvas.width / settings.get('AREA_CIRCLE_X_RATIO');
+      const rightCircleX = this.canvas.width * 2 / settings.get('AREA_CIRCLE_X_RATIO');
+      let circleY = settings.get('INDICATOR_CIRCLE_DEFAULT_Y');
       if (visualizeToggle) {
         const rect = visualizeToggle.getBoundingClientRect();
         circleY = rect.top + rect.height / 2; // Vertically centered with checkbox
@@ -406,26 +446,26 @@ export class TrailVisualizer {
 
       // Draw green threshold circle (only visible before zoom activation)
       if (!this.zoomActivated) {
-        const thresholdRadius = Math.sqrt(ZOOM_AREA_THRESHOLD) * INDICATOR_CIRCLE_SCALE;
+        const thresholdRadius = Math.sqrt(this.zoomAreaThreshold) * settings.get('INDICATOR_CIRCLE_SCALE');
         this.ctx.beginPath();
         this.ctx.arc(leftCircleX, circleY, thresholdRadius, 0, Math.PI * 2);
         if (this.isZoomBlocked()) {
           // Filled circle during zoom block period
-          this.ctx.fillStyle = TRAIL_THRESHOLD_FILL_COLOR;
+          this.ctx.fillStyle = settings.get('TRAIL_THRESHOLD_FILL_COLOR');
           this.ctx.fill();
         }
-        this.ctx.strokeStyle = TRAIL_THRESHOLD_COLOR;
-        this.ctx.lineWidth = INDICATOR_STROKE_WIDTH;
+        this.ctx.strokeStyle = settings.get('TRAIL_THRESHOLD_COLOR');
+        this.ctx.lineWidth = settings.get('INDICATOR_STROKE_WIDTH');
         this.ctx.stroke();
       }
 
       // Draw red/blue area circle on top (only when there's area)
       if (totalSignedArea !== 0) {
-        const radius = Math.sqrt(Math.abs(totalSignedArea)) * INDICATOR_CIRCLE_SCALE;
-        const color = totalSignedArea > 0 ? TRAIL_CIRCLE_COLOR_POSITIVE : TRAIL_CIRCLE_COLOR_NEGATIVE;
+        const radius = Math.sqrt(Math.abs(totalSignedArea)) * settings.get('INDICATOR_CIRCLE_SCALE');
+        const color = totalSignedArea > 0 ? settings.get('TRAIL_CIRCLE_COLOR_POSITIVE') : settings.get('TRAIL_CIRCLE_COLOR_NEGATIVE');
 
         this.ctx.strokeStyle = color;
-        this.ctx.lineWidth = INDICATOR_STROKE_WIDTH;
+        this.ctx.lineWidth = settings.get('INDICATOR_STROKE_WIDTH');
         this.ctx.beginPath();
         this.ctx.arc(leftCircleX, circleY, radius, 0, Math.PI * 2);
         this.ctx.stroke();
@@ -439,30 +479,31 @@ export class TrailVisualizer {
 
       // Draw product visualization (signedArea * fullCircles * (fullCirclesMult^2) * sign(signedArea)) at 2/3 width
       const signOfArea = totalSignedArea >= 0 ? 1 : -1;
-      const compoundValMult = ZOOM_FULL_CIRCLES_MULT * ZOOM_FULL_CIRCLES_MULT;
+      const fullCirclesMult = settings.get('ZOOM_FULL_CIRCLES_MULT');
+      const compoundValMult = fullCirclesMult * fullCirclesMult;
       const product = totalSignedArea * fullCircles * compoundValMult * signOfArea;
 
       // Draw green threshold circle for Alt1 (only visible before Alt1 zoom activation)
       if (!this.alt1ZoomActivated) {
-        const thresholdRadius = Math.sqrt(ZOOM_ALT1_THRESHOLD) * INDICATOR_CIRCLE_SCALE;
+        const thresholdRadius = Math.sqrt(this.zoomAlt1Threshold) * settings.get('INDICATOR_CIRCLE_SCALE');
         this.ctx.beginPath();
         this.ctx.arc(rightCircleX, circleY, thresholdRadius, 0, Math.PI * 2);
         if (this.isZoomBlocked()) {
           // Filled circle during zoom block period
-          this.ctx.fillStyle = TRAIL_THRESHOLD_FILL_COLOR;
+          this.ctx.fillStyle = settings.get('TRAIL_THRESHOLD_FILL_COLOR');
           this.ctx.fill();
         }
-        this.ctx.strokeStyle = TRAIL_THRESHOLD_COLOR;
-        this.ctx.lineWidth = INDICATOR_STROKE_WIDTH;
+        this.ctx.strokeStyle = settings.get('TRAIL_THRESHOLD_COLOR');
+        this.ctx.lineWidth = settings.get('INDICATOR_STROKE_WIDTH');
         this.ctx.stroke();
       }
 
       if (product !== 0) {
-        const productRadius = Math.sqrt(Math.abs(product)) * INDICATOR_CIRCLE_SCALE;
-        const productColor = product > 0 ? TRAIL_CIRCLE_COLOR_POSITIVE : TRAIL_CIRCLE_COLOR_NEGATIVE;
+        const productRadius = Math.sqrt(Math.abs(product)) * settings.get('INDICATOR_CIRCLE_SCALE');
+        const productColor = product > 0 ? settings.get('TRAIL_CIRCLE_COLOR_POSITIVE') : settings.get('TRAIL_CIRCLE_COLOR_NEGATIVE');
 
         this.ctx.strokeStyle = productColor;
-        this.ctx.lineWidth = INDICATOR_STROKE_WIDTH;
+        this.ctx.lineWidth = settings.get('INDICATOR_STROKE_WIDTH');
         this.ctx.beginPath();
         this.ctx.arc(rightCircleX, circleY, productRadius, 0, Math.PI * 2);
         this.ctx.stroke();
@@ -472,15 +513,14 @@ export class TrailVisualizer {
     // Draw the circle at drag point or virtual touch point
     if (currentPoint) {
       this.ctx.beginPath();
-      this.ctx.arc(currentPoint.x, currentPoint.y, TRAIL_CIRCLE_RADIUS, 0, Math.PI * 2);
-      this.ctx.fillStyle = TRAIL_FILL_COLOR;
+      this.ctx.arc(currentPoint.x, currentPoint.y, settings.get('TRAIL_CIRCLE_RADIUS'), 0, Math.PI * 2);
+      this.ctx.fillStyle = settings.get('TRAIL_FILL_COLOR');
       this.ctx.fill();
     }
 
     // Draw zoom factor
-    if (this.zoomGetter) {
-      const zoom = this.zoomGetter();
-      const zoomText = zoom.toFixed(1);
+    if (this.zoomLevel !== null) {
+      const zoomText = this.zoomLevel.toFixed(1);
 
       // Position at same height as native checkbox, right-aligned
       const nativeToggle = document.getElementById('visualize-toggle');
@@ -490,22 +530,22 @@ export class TrailVisualizer {
         zoomY = rect.top + rect.height / 2;
       }
 
-      this.ctx.font = ZOOM_TEXT_FONT;
-      this.ctx.fillStyle = ZOOM_TEXT_COLOR;
+      this.ctx.font = settings.get('ZOOM_TEXT_FONT');
+      this.ctx.fillStyle = settings.get('ZOOM_TEXT_COLOR');
       this.ctx.textAlign = 'right';
       this.ctx.textBaseline = 'middle';
-      this.ctx.fillText(zoomText, this.canvas.width - ZOOM_TEXT_X_OFFSET, zoomY);
+      this.ctx.fillText(zoomText, this.canvas.width - settings.get('ZOOM_TEXT_X_OFFSET'), zoomY);
     }
   }
 
   clear(): void {
-    this.trail = [];
+    this.trail.clear();
     this.dragPoint = null;
     this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
   }
 
   clearTrail(): void {
-    this.trail = [];
+    this.trail.clear();
   }
 
   destroy(): void {
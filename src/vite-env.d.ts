@@ -2,6 +2,13 @@
 
 interface ImportMetaEnv {
   readonly VITE_MAPKIT_TOKEN: string;
+  readonly VITE_MAP_PROVIDER?: string;
+  readonly VITE_GOOGLE_MAPS_API_KEY?: string;
+  readonly VITE_GOOGLE_MAPS_MAP_ID?: string;
+  readonly VITE_TILE_URL?: string;
+  readonly VITE_TILE_TYPE?: string;
+  readonly VITE_TILE_STYLE_URL?: string;
+  readonly VITE_TILE_ATTRIBUTION?: string;
 }
 
 interface ImportMeta {